@@ -2,9 +2,17 @@ import { useRef } from 'react'
 import { SuperGrid } from './SupperGrid/SuperGrid'
 import type { SuperGridRef } from './SupperGrid/SuperGrid'
 import { TextCell } from './SupperGrid/cells/TextCell'
+import { NumberCell } from './SupperGrid/cells/NumberCell'
+import { DateCell } from './SupperGrid/cells/DateCell'
+import { SelectCell, MultiSelectCell } from './SupperGrid/cells/SelectCell'
+import { CheckboxCell } from './SupperGrid/cells/CheckboxCell'
 import { FocusPlugin } from './SupperGrid/plugins/FocusPlugin'
 import './App.css'
 import { SelectPlugin } from './SupperGrid/plugins/SelectionPlugin';
+import { SortPlugin } from './SupperGrid/plugins/SortPlugin';
+import { FilterPlugin } from './SupperGrid/plugins/FilterPlugin';
+import { CheckboxPlugin } from './SupperGrid/plugins/CheckboxPlugin';
+import { EditingPlugin } from './SupperGrid/plugins/EditingPlugin';
 
 function App() {
   const gridRef = useRef<SuperGridRef>(null);
@@ -12,12 +20,16 @@ function App() {
   // Create plugin instances
   const focusPlugin = new FocusPlugin();
   const selectPlugin = new SelectPlugin();
+  const sortPlugin = new SortPlugin();
+  const filterPlugin = new FilterPlugin();
+  const checkboxPlugin = new CheckboxPlugin();
+  const editingPlugin = new EditingPlugin();
 
   // Sample data
   const data = [
-    { name: 'John', age: 30, email: 'john@example.com' },
-    { name: 'Jane', age: 25, email: 'jane@example.com' },
-    { name: 'Bob', age: 35, email: 'bob@example.com' }
+    { name: 'John', age: 30, email: 'john@example.com', joined: new Date(2021, 2, 14), status: 'active', teams: ['design'], verified: true },
+    { name: 'Jane', age: 25, email: 'jane@example.com', joined: new Date(2022, 8, 1), status: 'invited', teams: ['design', 'sales'], verified: false },
+    { name: 'Bob', age: 35, email: 'bob@example.com', joined: new Date(2019, 11, 20), status: 'inactive', teams: [] as string[], verified: null as boolean | null }
   ];
 
   // Table configuration
@@ -26,22 +38,81 @@ function App() {
       key: 'name' as keyof typeof data[0],
       cell: TextCell,
       header: 'Name',
+      sortable: true,
+      filterable: true,
+      filterType: 'text' as const,
       placeholder: 'Enter name',
-      width: '200px'
+      width: '200px',
+      minWidth: 120,
+      pinned: 'left' as const
     },
     {
       key: 'age' as keyof typeof data[0],
-      cell: TextCell,
+      cell: NumberCell,
       header: 'Age',
+      sortable: true,
+      filterable: true,
+      filterType: 'number' as const,
       placeholder: 'Enter age',
+      precision: 0,
+      min: 0,
+      max: 150,
       width: '100px'
     },
     {
       key: 'email' as keyof typeof data[0],
       cell: TextCell,
       header: 'Email',
+      sortable: true,
+      filterable: true,
+      filterType: 'values' as const,
+      foldable: true,
+      foldedColor: '#bfdbfe',
       placeholder: 'Enter email',
       width: '250px'
+    },
+    {
+      key: 'joined' as keyof typeof data[0],
+      cell: DateCell,
+      header: 'Joined',
+      sortable: true,
+      max: new Date(),
+      width: '160px'
+    },
+    {
+      key: 'status' as keyof typeof data[0],
+      cell: SelectCell,
+      header: 'Status',
+      sortable: true,
+      filterable: true,
+      filterType: 'values' as const,
+      options: [
+        { value: 'active', label: 'Active', color: '#bbf7d0' },
+        { value: 'invited', label: 'Invited', color: '#fef08a' },
+        { value: 'inactive', label: 'Inactive', color: '#e5e5e5' }
+      ],
+      width: '140px'
+    },
+    {
+      key: 'teams' as keyof typeof data[0],
+      cell: MultiSelectCell,
+      header: 'Teams',
+      // Loaded like a large lookup list would be
+      options: async (query: string) => [
+        { value: 'design', label: 'Design', color: '#e9d5ff' },
+        { value: 'engineering', label: 'Engineering', color: '#bfdbfe' },
+        { value: 'sales', label: 'Sales', color: '#fed7aa' }
+      ].filter(option => option.label.toLowerCase().includes(query.toLowerCase())),
+      placeholder: 'Add teams',
+      width: '220px'
+    },
+    {
+      key: 'verified' as keyof typeof data[0],
+      cell: CheckboxCell,
+      header: 'Verified',
+      sortable: true,
+      triState: true,
+      width: '90px'
     }
   ];
 
@@ -73,7 +144,8 @@ function App() {
         ref={gridRef}
         data={data}
         config={config}
-        plugins={[focusPlugin, selectPlugin]}
+        plugins={[focusPlugin, selectPlugin, sortPlugin, filterPlugin, checkboxPlugin, editingPlugin]}
+        draggableRows
       />
     </div>
   )
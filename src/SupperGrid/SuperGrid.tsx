@@ -1,12 +1,24 @@
-import { useEffect, useRef, useState, forwardRef, useImperativeHandle } from 'react';
-import type { TableProps, RowProps, RowId, CellId, SpaceId, CellCommand, Cell, CellCommandHandeler, RowCommandHandler, SpaceCommandHandler } from './core/types';
+import { Fragment, useEffect, useLayoutEffect, useRef, useState, forwardRef, useImperativeHandle } from 'react';
+import type { TableProps, TableConfig, RowProps, RowId, RowMovePosition, CellId, SpaceId, CellCommand, SpaceCommand, CellCommandHandeler, RowCommandHandler, SpaceCommandHandler, CommandListener } from './core/types';
 import { TableCore } from './core/TableCore';
 import type { BasePlugin } from './core/BasePlugin';
-import { v4 as uuidv4 } from 'uuid';
+import type { UndoRedoPlugin, UndoRedoListener } from './plugins/UndoRedoPlugin';
+import type { SelectPlugin, SelectionListener, SelectionRange } from './plugins/SelectionPlugin';
+import type { SortPlugin, SortDescriptor } from './plugins/SortPlugin';
 import { cn } from './core/utils';
+import { clampColumnWidth, createColumnLayout, getColumnWindow, getMountedColumns, getPinnedOffsets, moveColumnKey, orderColumns, parseColumnWidth, pinColumns, FOLDED_COLUMN_WIDTH, type ColumnLayout, type ColumnWindow } from './core/ColumnLayout';
 import { TableContext, type TableContextValue, useTableContext } from './core/TableContext';
 import { Space } from './components/Space';
 
+// Strip color of folded columns without a `foldedColor`
+const DEFAULT_FOLDED_COLOR = '#e7e5e4';
+// Room left after the content when a column is fitted to it
+const AUTO_FIT_PADDING = 16;
+// Width of the row drag handle column (draggableRows)
+const ROW_HANDLE_WIDTH = 16;
+// dataTransfer type of a dragged row, holding its row ID
+const ROW_DRAG_TYPE = 'application/x-supergrid-row';
+
 interface SuperGridProps<TData> extends TableProps<TData> {
     plugins?: BasePlugin[];
 }
@@ -16,15 +28,93 @@ export interface SuperGridRef {
     focusCell: (cellId: CellId) => void;
     blurCell: (cellId: CellId) => void;
     selectCell: (cellId: CellId) => void;
-    editCell: (cellId: CellId) => void;
+    editCell: (cellId: CellId, text?: string) => void;
     updateCellValue: (cellId: CellId, value: any) => void;
     destroyRow: (rowId: RowId) => void;
+    moveRow: (rowId: RowId, position: RowMovePosition) => boolean;
+    subscribe: (listener: CommandListener) => () => void;
+    batch: (fn: () => void) => void;
+    // History (requires UndoRedoPlugin)
+    undo: () => void;
+    redo: () => void;
+    readonly canUndo: boolean;
+    readonly canRedo: boolean;
+    // Called when canUndo/canRedo may have changed, to re-render undo buttons
+    onUndoRedoChange: (listener: UndoRedoListener) => () => void;
+    // Selection model (requires SelectPlugin)
+    getSelection: () => SelectionRange[];
+    setSelection: (ranges: SelectionRange[]) => void;
+    onSelectionChange: (listener: SelectionListener) => () => void;
+    // Sorting (requires SortPlugin)
+    getSort: () => SortDescriptor[];
+    setSort: (sort: SortDescriptor[]) => void;
     getTableCore: () => TableCore | null;
 }
 
-export const SuperGrid = forwardRef<SuperGridRef, SuperGridProps<any>>(function SuperGrid<TData>({ data, config, plugins = [] }: SuperGridProps<TData>, ref: React.Ref<SuperGridRef>) {
+export const SuperGrid = forwardRef<SuperGridRef, SuperGridProps<any>>(function SuperGrid<TData>({ data, config, plugins = [], getRowId, onDataChange, onCellValueChange, onColumnResize, onColumnOrderChange, draggableRows = false, height, rowHeight = 40, overscan = 10, columnOverscan = 2 }: SuperGridProps<TData>, ref: React.Ref<SuperGridRef>) {
     const tableCoreRef = useRef<TableCore | null>(null);
     const [tableCoreReady, setTableCoreReady] = useState(false);
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const isColumnFolded = (columnKey: string) => tableCoreRef.current?.isColumnFolded(columnKey) ?? false;
+
+    // Widths the user resized columns to, in pixels, overriding `width` from the config
+    const [columnWidths, setColumnWidths] = useState<Record<string, number>>({});
+    // Column order the user dragged the headers into, null = config order
+    const [columnOrder, setColumnOrder] = useState<string[] | null>(null);
+    const [columnDrop, setColumnDrop] = useState<{ columnKey: string; side: 'before' | 'after' } | null>(null);
+    const draggedColumnRef = useRef<string | null>(null);
+    const headerPointerTargetRef = useRef<EventTarget | null>(null);
+    const columns = pinColumns(orderColumns(config, columnOrder)).map(column => {
+        const width = columnWidths[String(column.key)];
+        return width === undefined ? column : { ...column, width: `${width}px` };
+    });
+
+    // Horizontal layout of the columns (rendered widths include the 1px border)
+    const columnLayout = createColumnLayout(columns.map(column => ({
+        key: String(column.key),
+        width: isColumnFolded(String(column.key)) ? FOLDED_COLUMN_WIDTH : parseColumnWidth(column.width) + 1,
+        pinned: column.pinned
+    })));
+    // Row drag handles sit left of the first column, sticky like left pinned columns
+    const rowGutter = draggableRows ? ROW_HANDLE_WIDTH : 0;
+    const rowGutterRef = useRef(rowGutter);
+    const pinnedOffsets = getPinnedOffsets(columns, columnLayout, rowGutter);
+    const columnLayoutRef = useRef<ColumnLayout>(columnLayout);
+    const [columnWindow, setColumnWindow] = useState<ColumnWindow | undefined>(undefined);
+    const isVirtualized = height !== undefined;
+
+    // The header and sticky spaces stack at the top of the scroll viewport:
+    // where each sticky space sticks, and how much of the viewport they cover
+    const headerRef = useRef<HTMLDivElement>(null);
+    const [stickyLayout, setStickyLayout] = useState<{ tops: Record<SpaceId, number>; height: number }>({ tops: {}, height: 0 });
+
+    // Latest callbacks, read by the listeners registered on TableCore
+    const onDataChangeRef = useRef(onDataChange);
+    const onCellValueChangeRef = useRef(onCellValueChange);
+    const onColumnResizeRef = useRef(onColumnResize);
+    const onColumnOrderChangeRef = useRef(onColumnOrderChange);
+    useEffect(() => {
+        onDataChangeRef.current = onDataChange;
+        onCellValueChangeRef.current = onCellValueChange;
+        onColumnResizeRef.current = onColumnResize;
+        onColumnOrderChangeRef.current = onColumnOrderChange;
+    });
+    const isControlled = onDataChange !== undefined;
+
+    // Command listeners live on the grid so they survive TableCore re-creation
+    const commandListenersRef = useRef(new Set<CommandListener>());
+    const selectionListenersRef = useRef(new Set<SelectionListener>());
+    const undoRedoListenersRef = useRef(new Set<UndoRedoListener>());
+
+    const getUndoRedoPlugin = () =>
+        tableCoreRef.current?.getPluginManager().getPlugin<UndoRedoPlugin>('undo-redo') ?? null;
+    const getSelectPlugin = () =>
+        tableCoreRef.current?.getPluginManager().getPlugin<SelectPlugin>('selection') ?? null;
+    const getSortPlugin = () =>
+        tableCoreRef.current?.getPluginManager().getPlugin<SortPlugin>('sort') ?? null;
+
+    // Bumped when the header or rows need a re-render (plugin header state, folded columns)
+    const [, setLayoutVersion] = useState(0);
 
     // Expose TableCore methods through ref
     useImperativeHandle(ref, () => ({
@@ -40,8 +130,8 @@ export const SuperGrid = forwardRef<SuperGridRef, SuperGridProps<any>>(function
         selectCell: (cellId: CellId) => {
             tableCoreRef.current?.selectCell(cellId);
         },
-        editCell: (cellId: CellId) => {
-            tableCoreRef.current?.editCell(cellId);
+        editCell: (cellId: CellId, text?: string) => {
+            tableCoreRef.current?.editCell(cellId, text);
         },
         updateCellValue: (cellId: CellId, value: any) => {
             tableCoreRef.current?.updateCellValue(cellId, value);
@@ -49,6 +139,61 @@ export const SuperGrid = forwardRef<SuperGridRef, SuperGridProps<any>>(function
         destroyRow: (rowId: RowId) => {
             tableCoreRef.current?.destroyRow(rowId);
         },
+        moveRow: (rowId: RowId, position: RowMovePosition) => {
+            return tableCoreRef.current?.moveRow(rowId, position) ?? false;
+        },
+        batch: (fn: () => void) => {
+            if (tableCoreRef.current) {
+                tableCoreRef.current.batch(fn);
+            } else {
+                fn();
+            }
+        },
+        undo: () => {
+            getUndoRedoPlugin()?.undo();
+        },
+        redo: () => {
+            getUndoRedoPlugin()?.redo();
+        },
+        get canUndo() {
+            return getUndoRedoPlugin()?.canUndo ?? false;
+        },
+        get canRedo() {
+            return getUndoRedoPlugin()?.canRedo ?? false;
+        },
+        onUndoRedoChange: (listener: UndoRedoListener) => {
+            const listeners = undoRedoListenersRef.current;
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+        getSelection: () => {
+            return getSelectPlugin()?.getSelection() ?? [];
+        },
+        setSelection: (ranges: SelectionRange[]) => {
+            getSelectPlugin()?.setSelection(ranges);
+        },
+        onSelectionChange: (listener: SelectionListener) => {
+            const listeners = selectionListenersRef.current;
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+        getSort: () => {
+            return getSortPlugin()?.getSort() ?? [];
+        },
+        setSort: (sort: SortDescriptor[]) => {
+            getSortPlugin()?.setSort(sort);
+        },
+        subscribe: (listener: CommandListener) => {
+            const listeners = commandListenersRef.current;
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
         getTableCore: () => tableCoreRef.current
     }), []);
 
@@ -63,6 +208,42 @@ export const SuperGrid = forwardRef<SuperGridRef, SuperGridProps<any>>(function
 
             // Initialize plugins with their context-aware APIs
             tableCoreRef.current.initializePlugins();
+
+            const commandListeners = commandListenersRef.current;
+            tableCoreRef.current.subscribe(event => {
+                commandListeners.forEach(listener => listener(event));
+            });
+
+            // Columns are laid out by the grid, so it scrolls them into view;
+            // the row's space only takes care of the vertical position
+            tableCoreRef.current.subscribe(event => {
+                if (event.type !== 'space' || event.command.name !== 'scrollIntoView' || event.result.blocked) return;
+                const { columnKey } = (event.command as SpaceCommand<'scrollIntoView'>).payload;
+                if (columnKey !== undefined) {
+                    scrollColumnIntoView(columnKey);
+                }
+            });
+
+            tableCoreRef.current.subscribeLayout(() => setLayoutVersion(v => v + 1));
+
+            const selectionListeners = selectionListenersRef.current;
+            getSelectPlugin()?.onSelectionChange(selection => {
+                selectionListeners.forEach(listener => listener(selection));
+            });
+
+            const undoRedoListeners = undoRedoListenersRef.current;
+            getUndoRedoPlugin()?.onChange(state => {
+                undoRedoListeners.forEach(listener => listener(state));
+            });
+
+            tableCoreRef.current.setDataListeners({
+                onCellValueChange: (rowId, key, oldValue, newValue) => {
+                    onCellValueChangeRef.current?.(rowId, key as keyof TData, oldValue, newValue);
+                },
+                onDataChange: (nextData) => {
+                    onDataChangeRef.current?.(nextData as TData[]);
+                }
+            });
         }
 
         setTableCoreReady(true);
@@ -89,11 +270,199 @@ export const SuperGrid = forwardRef<SuperGridRef, SuperGridProps<any>>(function
             document.removeEventListener('keydown', handleKeyDown);
             document.removeEventListener('keyup', handleKeyUp);
             tableCoreRef.current?.destroy();
+            // The next mount gets a fresh core with its own registries
+            tableCoreRef.current = null;
         };
     }, [plugins]);
 
+    // Rows get their cells from the core, so it needs the columns before the
+    // spaces create rows in their effects, which run after this one
+    const columnsRef = useRef(columns);
+    columnsRef.current = columns;
+    const columnKeys = columns.map(column => String(column.key)).join('\u0000');
+    useLayoutEffect(() => {
+        if (!tableCoreReady || !tableCoreRef.current) return;
+        tableCoreRef.current.setColumnConfig(columnsRef.current);
+        tableCoreRef.current.setColumns(columnsRef.current.map(column => String(column.key)));
+    }, [tableCoreReady, columnKeys, config]);
+
     // Cell linking is now handled by individual Space components
 
+    // Work out which columns are inside the viewport of the scroll container
+    useLayoutEffect(() => {
+        columnLayoutRef.current = columnLayout;
+        rowGutterRef.current = rowGutter;
+    });
+    const columnLayoutKey = `${columnLayout.widths.join(',')}|${columnLayout.pinnedLeft}|${columnLayout.pinnedRight}`;
+    useLayoutEffect(() => {
+        const scroller = scrollRef.current;
+        if (!isVirtualized || !scroller) {
+            setColumnWindow(undefined);
+            return;
+        }
+
+        const updateWindow = () => {
+            const next = getColumnWindow(columnLayoutRef.current, scroller.scrollLeft - rowGutter, scroller.clientWidth, columnOverscan);
+            setColumnWindow(prev => (
+                prev && prev.start === next.start && prev.end === next.end &&
+                prev.before === next.before && prev.after === next.after ? prev : next
+            ));
+        };
+
+        updateWindow();
+        scroller.addEventListener('scroll', updateWindow, { passive: true });
+        const resizeObserver = new ResizeObserver(updateWindow);
+        resizeObserver.observe(scroller);
+
+        return () => {
+            scroller.removeEventListener('scroll', updateWindow);
+            resizeObserver.disconnect();
+        };
+    }, [isVirtualized, columnOverscan, columnLayoutKey, rowGutter]);
+
+    // Measure the sticky header and spaces whenever one of them changes size
+    useLayoutEffect(() => {
+        const scroller = scrollRef.current;
+        const header = headerRef.current;
+        if (!scroller || !header) return;
+
+        const stickySpaces = Array.from(scroller.querySelectorAll<HTMLElement>('[data-sticky-space]'));
+        const updateStickyLayout = () => {
+            const tops: Record<SpaceId, number> = {};
+            let top = header.offsetHeight;
+            stickySpaces.forEach(element => {
+                tops[element.dataset.spaceId!] = top;
+                top += element.offsetHeight;
+            });
+            setStickyLayout(prev => (
+                prev.height === top && stickySpaces.every(element => prev.tops[element.dataset.spaceId!] === tops[element.dataset.spaceId!])
+                    ? prev
+                    : { tops, height: top }
+            ));
+        };
+
+        updateStickyLayout();
+        const resizeObserver = new ResizeObserver(updateStickyLayout);
+        resizeObserver.observe(header);
+        stickySpaces.forEach(element => resizeObserver.observe(element));
+        return () => resizeObserver.disconnect();
+    }, [plugins, tableCoreReady]);
+
+    // Resize a column by dragging the handle on the right edge of its header.
+    // The width follows the pointer, onColumnResize reports it on release.
+    const startColumnResize = (event: React.MouseEvent<HTMLElement>, column: TableConfig<TData>[number]) => {
+        event.preventDefault();
+        event.stopPropagation();
+
+        const columnKey = String(column.key);
+        const headerCell = event.currentTarget.parentElement!;
+        const startX = event.clientX;
+        const startWidth = headerCell.getBoundingClientRect().width - 1; // Without the border
+        let width = startWidth;
+
+        const handleMouseMove = (e: MouseEvent) => {
+            width = clampColumnWidth(startWidth + e.clientX - startX, column.minWidth, column.maxWidth);
+            setColumnWidths(widths => ({ ...widths, [columnKey]: width }));
+        };
+        const handleMouseUp = () => {
+            window.removeEventListener('mousemove', handleMouseMove);
+            window.removeEventListener('mouseup', handleMouseUp);
+            document.body.style.cursor = '';
+            if (width !== startWidth) {
+                onColumnResizeRef.current?.(columnKey, width);
+            }
+        };
+
+        document.body.style.cursor = 'col-resize';
+        window.addEventListener('mousemove', handleMouseMove);
+        window.addEventListener('mouseup', handleMouseUp);
+    };
+
+    // Fit a column to the widest content of its header and mounted cells
+    const autoFitColumn = (column: TableConfig<TData>[number]) => {
+        const scroller = scrollRef.current;
+        if (!scroller) return;
+
+        const columnKey = String(column.key);
+        const selector = `[data-column-key="${CSS.escape(columnKey)}"]`;
+        const widths = Array.from(scroller.querySelectorAll<HTMLElement>(selector)).map(measureContentWidth);
+        if (widths.length === 0) return;
+
+        const width = clampColumnWidth(Math.ceil(Math.max(...widths)), column.minWidth, column.maxWidth);
+        setColumnWidths(current => ({ ...current, [columnKey]: width }));
+        onColumnResizeRef.current?.(columnKey, width);
+    };
+
+    // Reorder columns by dragging their headers. The new order reaches the core
+    // through setColumns once it is rendered, which relinks the cells.
+    const handleHeaderDragStart = (event: React.DragEvent<HTMLElement>, columnKey: string) => {
+        // Not from the resize handle, and keep text selection inside header inputs (filter menu)
+        const origin = headerPointerTargetRef.current;
+        if (origin instanceof Element && origin.closest('input, textarea, select, [data-resize-handle]')) {
+            event.preventDefault();
+            return;
+        }
+        draggedColumnRef.current = columnKey;
+        event.dataTransfer.effectAllowed = 'move';
+        event.dataTransfer.setData('text/plain', columnKey);
+    };
+
+    const handleHeaderDragOver = (event: React.DragEvent<HTMLElement>, columnKey: string) => {
+        if (!draggedColumnRef.current) return;
+        // Columns only move within their pinned group (left, scrolling, right)
+        const pinnedOf = (key: string) => columns.find(column => String(column.key) === key)?.pinned;
+        if (pinnedOf(draggedColumnRef.current) !== pinnedOf(columnKey)) {
+            setColumnDrop(null);
+            return;
+        }
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'move';
+
+        const rect = event.currentTarget.getBoundingClientRect();
+        const side = event.clientX < rect.left + rect.width / 2 ? 'before' : 'after';
+        setColumnDrop(drop => (drop?.columnKey === columnKey && drop.side === side ? drop : { columnKey, side }));
+    };
+
+    const handleHeaderDrop = (event: React.DragEvent<HTMLElement>) => {
+        const draggedKey = draggedColumnRef.current;
+        if (!draggedKey || !columnDrop) return;
+        event.preventDefault();
+
+        const keys = columns.map(column => String(column.key));
+        const order = moveColumnKey(keys, draggedKey, columnDrop.columnKey, columnDrop.side);
+        handleHeaderDragEnd();
+        if (order.every((key, index) => keys[index] === key)) return;
+
+        setColumnOrder(order);
+        onColumnOrderChangeRef.current?.(order);
+    };
+
+    const handleHeaderDragEnd = () => {
+        draggedColumnRef.current = null;
+        setColumnDrop(null);
+    };
+
+    // Scroll horizontally so the column is visible - it may not be mounted yet.
+    // Pinned columns are always visible, scrolling ones must clear them.
+    function scrollColumnIntoView(columnKey: string) {
+        const scroller = scrollRef.current;
+        const layout = columnLayoutRef.current;
+        const index = layout.keys.indexOf(columnKey);
+        const count = layout.keys.length;
+        if (!scroller || index === -1 || index < layout.pinnedLeft || index >= count - layout.pinnedRight) return;
+
+        const rowGutter = rowGutterRef.current;
+        const pinnedLeftWidth = rowGutter + (layout.pinnedLeft > 0 ? layout.offsets[layout.pinnedLeft] : 0);
+        const pinnedRightWidth = layout.pinnedRight > 0 ? layout.totalWidth - layout.offsets[count - layout.pinnedRight] : 0;
+        const left = rowGutter + layout.offsets[index];
+        const right = left + layout.widths[index];
+        if (left < scroller.scrollLeft + pinnedLeftWidth) {
+            scroller.scrollLeft = left - pinnedLeftWidth;
+        } else if (right > scroller.scrollLeft + scroller.clientWidth - pinnedRightWidth) {
+            scroller.scrollLeft = right - scroller.clientWidth + pinnedRightWidth;
+        }
+    }
+
     // Create table context value
     const tableContextValue: TableContextValue = {
         sendMouseEvent: (cellId: CellId, eventName: string, event: MouseEvent) => {
@@ -104,19 +473,24 @@ export const SuperGrid = forwardRef<SuperGridRef, SuperGridProps<any>>(function
             console.log('Keyboard event not yet implemented:', cellId, eventName, event);
         },
         registerCellCommands: (cellId: CellId, handler: CellCommandHandeler) => {
-            tableCoreRef.current?.getCellCommandRegistry().register(cellId, handler);
+            tableCoreRef.current?.mountCell(cellId, handler);
         },
-        registerCell: (cellId: CellId, cell: Cell) => {
-            tableCoreRef.current?.getCellRegistry().register(cellId, cell);
+        unregisterCellCommands: (cellId: CellId) => {
+            tableCoreRef.current?.unmountCell(cellId);
         },
-        addCellToRow: (rowId: RowId, cellId: CellId) => {
-            const row = tableCoreRef.current?.getRowRegistry().get(rowId);
-            if (row) {
-                if (!row.cells.includes(cellId)) {
-                    row.cells.push(cellId);
-                    tableCoreRef.current?.getRowRegistry().register(rowId, row);
-                }
-            }
+        getCellId: (rowId: RowId, columnKey: string) => {
+            return tableCoreRef.current?.getCellId(rowId, columnKey);
+        },
+        isColumnFolded,
+        draggableRows,
+        moveRow: (rowId: RowId, position: RowMovePosition) => {
+            return tableCoreRef.current?.moveRow(rowId, position) ?? false;
+        },
+        commitCellValue: (cellId: CellId, value: unknown) => {
+            tableCoreRef.current?.commitCellValue(cellId, value);
+        },
+        reportCellError: (cellId: CellId, error: unknown) => {
+            tableCoreRef.current?.reportCellError(cellId, error);
         },
         registerRowHandler: (rowId: RowId, handler: RowCommandHandler) => {
             tableCoreRef.current?.getRowCommandRegistry().register(rowId, handler);
@@ -135,6 +509,17 @@ export const SuperGrid = forwardRef<SuperGridRef, SuperGridProps<any>>(function
         }
     };
 
+    // What plugins draw into a column header (sort indicator, filter menu, ...)
+    const renderHeaderAddons = (columnKey: string) => {
+        if (!tableCoreReady || !tableCoreRef.current) {
+            return null;
+        }
+
+        return tableCoreRef.current.getPluginManager().getPluginsInOrder().map(plugin => (
+            <Fragment key={plugin.name}>{plugin.renderHeader?.(columnKey)}</Fragment>
+        ));
+    };
+
     // Render spaces in dependency order + table space at bottom
     const renderSpaces = () => {
         if (!tableCoreReady || !tableCoreRef.current) {
@@ -155,8 +540,12 @@ export const SuperGrid = forwardRef<SuperGridRef, SuperGridProps<any>>(function
                     id={spaceId}
                     data={[]} // Plugin spaces start empty, plugins will populate them
                     tableCore={tableCoreRef.current!}
-                    config={config}
+                    config={columns}
+                    columnWindow={columnWindow}
+                    pinnedOffsets={pinnedOffsets}
                     GridRow={GridRow}
+                    sticky={tableCoreRef.current!.getSpaceCoordinator().isSticky(spaceId)}
+                    stickyTop={stickyLayout.tops[spaceId]}
                 />
             );
         });
@@ -167,9 +556,14 @@ export const SuperGrid = forwardRef<SuperGridRef, SuperGridProps<any>>(function
                 key="table-space"
                 id="table-space"
                 data={data} // Main table data
+                controlled={isControlled}
+                getRowId={getRowId}
                 tableCore={tableCoreRef.current!}
-                config={config}
+                config={columns}
+                columnWindow={columnWindow}
+                pinnedOffsets={pinnedOffsets}
                 GridRow={GridRow}
+                virtualization={isVirtualized ? { scrollRef, rowHeight, overscan, stickyHeight: stickyLayout.height } : undefined}
             />
         );
 
@@ -179,23 +573,85 @@ export const SuperGrid = forwardRef<SuperGridRef, SuperGridProps<any>>(function
 
     return (
         <TableContext.Provider value={tableContextValue}>
-            <div className="w-fit">
-                {/* Header row */}
-                <div className="flex">
-                    {config.map((col, index) => (
+            <div
+                ref={scrollRef}
+                className={cn('w-fit', isVirtualized && 'overflow-auto')}
+                // scroll-padding keeps the browser's scrollIntoView clear of the sticky header and spaces
+                style={isVirtualized ? { height, scrollPaddingTop: stickyLayout.height } : undefined}
+            >
+                {/* Header row - sticky, and as wide as its columns so pinned ones stick across the whole scroll */}
+                <div ref={headerRef} className="sticky top-0 z-[4] flex min-w-full w-max bg-stone-50">
+                    {draggableRows && (
                         <div
-                            key={index}
-                            className={cn(
-                                'border-neutral-200 border-[0.5px] h-10 inset-0 box-border',
-                                'ring-[0.5px] ring-inset ring-transparent'
-                            )}
-                            style={{ width: `calc(${col.width} + 1px)` }}
-                        >
-                            <div className="h-full w-full flex justify-start items-center p-2 bg-stone-50 hover:bg-stone-100 hover:ring-stone-800 ring-transparent ring-[0.5px]">
-                                {col.header}
+                            className="shrink-0 border-neutral-200 border-[0.5px] box-border bg-stone-50"
+                            style={{ width: ROW_HANDLE_WIDTH, position: 'sticky', left: 0, zIndex: 3 }}
+                        />
+                    )}
+                    {getMountedColumns(columns, columnWindow).map(mounted => {
+                        if (mounted.type === 'spacer') {
+                            return <div key={mounted.key} className="shrink-0" style={{ width: mounted.width }} />;
+                        }
+                        const col = mounted.column;
+                        return isColumnFolded(String(col.key)) ? (
+                            // Folded column - a strip that expands again on click
+                            <div
+                                key={String(col.key)}
+                                title={`${col.header} (click to expand)`}
+                                className="border-neutral-200 border-[0.5px] h-10 box-border shrink-0 cursor-pointer"
+                                style={{ width: FOLDED_COLUMN_WIDTH, backgroundColor: col.foldedColor ?? DEFAULT_FOLDED_COLOR, ...getPinnedStyle(col, pinnedOffsets, 3) }}
+                                onClick={() => tableCoreRef.current?.setColumnFolded(String(col.key), false)}
+                            />
+                        ) : (
+                            <div
+                                key={String(col.key)}
+                                className={cn(
+                                    'relative border-neutral-200 border-[0.5px] h-10 inset-0 box-border shrink-0',
+                                    'ring-[0.5px] ring-inset ring-transparent',
+                                    columnDrop?.columnKey === String(col.key) && (columnDrop.side === 'before'
+                                        ? 'shadow-[inset_2px_0_0_#3b82f6]'
+                                        : 'shadow-[inset_-2px_0_0_#3b82f6]')
+                                )}
+                                data-column-key={String(col.key)}
+                                style={{ width: `calc(${col.width} + 1px)`, ...getPinnedStyle(col, pinnedOffsets, 3) }}
+                                draggable
+                                onMouseDownCapture={(e) => { headerPointerTargetRef.current = e.target; }}
+                                onDragStart={(e) => handleHeaderDragStart(e, String(col.key))}
+                                onDragOver={(e) => handleHeaderDragOver(e, String(col.key))}
+                                onDrop={handleHeaderDrop}
+                                onDragEnd={handleHeaderDragEnd}
+                                onClick={(e) => tableCoreRef.current?.clickHeader(String(col.key), e.nativeEvent)}
+                            >
+                                <div className="h-full w-full flex justify-start items-center gap-1 p-2 bg-stone-50 hover:bg-stone-100 hover:ring-stone-800 ring-transparent ring-[0.5px] select-none">
+                                    <span className="truncate">{col.header}</span>
+                                    {renderHeaderAddons(String(col.key))}
+                                    {col.foldable && (
+                                        <button
+                                            type="button"
+                                            title="Fold column"
+                                            className="ml-auto px-1 rounded text-neutral-400 hover:bg-stone-200 hover:text-neutral-700"
+                                            onClick={(e) => {
+                                                e.stopPropagation(); // Not a header click (sorting)
+                                                tableCoreRef.current?.setColumnFolded(String(col.key), true);
+                                            }}
+                                        >
+                                            ‹
+                                        </button>
+                                    )}
+                                </div>
+                                {/* Resize handle - drag to resize, double-click to fit the content */}
+                                <div
+                                    className="absolute top-0 -right-1 z-10 h-full w-2 cursor-col-resize hover:bg-stone-300/60"
+                                    data-resize-handle
+                                    onMouseDown={(e) => startColumnResize(e, col)}
+                                    onClick={(e) => e.stopPropagation()}
+                                    onDoubleClick={(e) => {
+                                        e.stopPropagation();
+                                        autoFitColumn(col);
+                                    }}
+                                />
                             </div>
-                        </div>
-                    ))}
+                        );
+                    })}
                 </div>
                 {/* Spaces (plugin spaces + table space) */}
                 <div className="w-full">
@@ -206,26 +662,60 @@ export const SuperGrid = forwardRef<SuperGridRef, SuperGridProps<any>>(function
     );
 });
 
+// Pinned columns stick to their edge of the scroll container, above the
+// scrolling ones (header cells above row cells)
+function getPinnedStyle(
+    column: { key: unknown; pinned?: 'left' | 'right' },
+    pinnedOffsets: Record<string, number> | undefined,
+    zIndex: number
+): React.CSSProperties | undefined {
+    const offset = pinnedOffsets?.[String(column.key)];
+    if (!column.pinned || offset === undefined) return undefined;
+    return { position: 'sticky', [column.pinned]: offset, zIndex };
+}
+
 // Row component that uses the TableContext
-function GridRow<TData>({ id, data, columns, rowIndex }: RowProps<TData>) {
+function GridRow<TData>({ id, data, columns, rowIndex, height, columnWindow, pinnedOffsets }: RowProps<TData>) {
     const tableContext = useTableContext();
     const [isDestroyed, setIsDestroyed] = useState(false);
+    // Side a dragged row would be dropped on (draggableRows)
+    const [dropSide, setDropSide] = useState<'before' | 'after' | null>(null);
     const renderCountRef = useRef(0);
     
     // Increment render counter and log
     renderCountRef.current += 1;
     console.log(`GridRow ${id.slice(0, 8)}... render #${renderCountRef.current} (rowIndex: ${rowIndex})`);
     
-    // Generate stable cell IDs with spatial coordinates (only once per row instance)
-    const cellIdsRef = useRef<CellId[]>([]);
-
-    // Initialize cell IDs with spatial coordinates if not already done
-    if (cellIdsRef.current.length !== columns.length) {
-        cellIdsRef.current = columns.map((_, colIndex) =>
-            `${colIndex.toString().padStart(2, '0')}-${rowIndex.toString().padStart(2, '0')}-${uuidv4()}`
-            // Example: "01-02-a1b2c3d4-e5f6-7890-abcd-ef1234567890" (col=1, row=2)
-        );
-    }
+    // Cells are created by TableCore with the row, GridRow only renders them.
+    // With column virtualization only the pinned columns and the ones in the
+    // window are mounted, cells of folded columns are never mounted.
+    const mountedColumns = getMountedColumns(columns, columnWindow);
+    const cellIds = mountedColumns.map(mounted => mounted.type === 'spacer' || tableContext.isColumnFolded(String(mounted.column.key))
+        ? undefined
+        : tableContext.getCellId(id, String(mounted.column.key)));
+
+    // Cell handlers go away with the row component (e.g. scrolled out of view).
+    // Refs keep this to unmount only - the context object changes every render.
+    const mountedCellIdsRef = useRef<(CellId | undefined)[]>([]);
+    const tableContextRef = useRef(tableContext);
+    tableContextRef.current = tableContext;
+
+    // Cells that left the column window (or were folded) were unmounted
+    useEffect(() => {
+        mountedCellIdsRef.current.forEach(cellId => {
+            if (cellId && !cellIds.includes(cellId)) tableContext.unregisterCellCommands(cellId);
+        });
+        mountedCellIdsRef.current = cellIds;
+    });
+    useEffect(() => {
+        const mountedCellIds = mountedCellIdsRef;
+        const context = tableContextRef;
+        return () => {
+            mountedCellIds.current.forEach(cellId => {
+                if (cellId) context.current.unregisterCellCommands(cellId);
+            });
+        };
+    }, []);
 
     // Register row command handler
     useEffect(() => {
@@ -236,6 +726,11 @@ function GridRow<TData>({ id, data, columns, rowIndex }: RowProps<TData>) {
                     console.log(`GridRow ${id}: Destroying row`);
                     setIsDestroyed(true);
                     break;
+                case 'linkToTop':
+                case 'linkToBottom':
+                    // Moved (TableCore.moveRow) - the spaces re-sort their rows,
+                    // this row keeps its cells and their state
+                    break;
                 default:
                     console.log(`GridRow ${id}: Unhandled row command:`, command.name);
                     break;
@@ -257,6 +752,36 @@ function GridRow<TData>({ id, data, columns, rowIndex }: RowProps<TData>) {
         };
     };
 
+    // Rows are dragged by their handle and dropped above or below another row,
+    // in the same space or another one
+    const handleRowDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+        if (!event.dataTransfer.types.includes(ROW_DRAG_TYPE)) return; // e.g. a column header
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'move';
+
+        const rect = event.currentTarget.getBoundingClientRect();
+        const side = event.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+        setDropSide(prev => (prev === side ? prev : side));
+    };
+
+    const handleRowDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+        if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+            setDropSide(null);
+        }
+    };
+
+    const handleRowDrop = (event: React.DragEvent<HTMLDivElement>) => {
+        const draggedRowId = event.dataTransfer.getData(ROW_DRAG_TYPE);
+        const side = dropSide;
+        setDropSide(null);
+        if (!draggedRowId || !side) return;
+        event.preventDefault();
+
+        if (draggedRowId !== id) {
+            tableContext.moveRow(draggedRowId, side === 'before' ? { before: id } : { after: id });
+        }
+    };
+
     // If row is destroyed, render nothing (React will unmount all child cells)
     if (isDestroyed) {
         console.log(`GridRow ${id.slice(0, 8)}... render #${renderCountRef.current} - DESTROYED, returning null`);
@@ -264,25 +789,59 @@ function GridRow<TData>({ id, data, columns, rowIndex }: RowProps<TData>) {
     }
 
     return (
-        <div className="w-full flex" data-row-id={id}>
-            {columns.map((column, index) => {
-                const cellId = cellIdsRef.current[index];
+        <div
+            className="relative min-w-full w-max flex"
+            data-row-id={id}
+            style={height !== undefined ? { height } : undefined}
+            onDragOver={tableContext.draggableRows ? handleRowDragOver : undefined}
+            onDragLeave={tableContext.draggableRows ? handleRowDragLeave : undefined}
+            onDrop={tableContext.draggableRows ? handleRowDrop : undefined}
+        >
+            {tableContext.draggableRows && (
+                <div
+                    className="shrink-0 flex items-center justify-center border-[0.5px] border-neutral-200 box-border bg-white text-neutral-300 hover:text-neutral-600 cursor-grab select-none"
+                    style={{ width: ROW_HANDLE_WIDTH, position: 'sticky', left: 0, zIndex: 2 }}
+                    title="Drag to move the row"
+                    draggable
+                    onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        e.dataTransfer.setData(ROW_DRAG_TYPE, id);
+                        // Drag the whole row, not just the handle
+                        const rowElement = e.currentTarget.parentElement;
+                        if (rowElement) e.dataTransfer.setDragImage(rowElement, 0, 0);
+                    }}
+                >
+                    ⋮
+                </div>
+            )}
+            {dropSide && (
+                <div
+                    className={cn('absolute inset-x-0 h-0.5 bg-blue-500 pointer-events-none z-[3]', dropSide === 'before' ? 'top-0' : 'bottom-0')}
+                />
+            )}
+            {mountedColumns.map((mounted, index) => {
+                if (mounted.type === 'spacer') {
+                    return <div key={mounted.key} className="shrink-0" style={{ width: mounted.width }} />;
+                }
+                const column = mounted.column;
+                const cellId = cellIds[index];
                 const cellValue = data[column.key];
-                const previousCellId = index > 0 ? cellIdsRef.current[index - 1] : null;
-                const nextCellId = index < columns.length - 1 ? cellIdsRef.current[index + 1] : null;
-
-                // Create Cell object with spatial coordinates
-                const cellObject: Cell = {
-                    rowId: id,
-                    top: null,        // Will be linked after all rows are created
-                    bottom: null,     // Will be linked after all rows are created
-                    left: previousCellId,   // Link to the previous cell in this row
-                    right: nextCellId       // Link to the next cell in this row
-                };
 
-                // Register the cell object and add to row
-                tableContext.registerCell(cellId, cellObject);
-                tableContext.addCellToRow(id, cellId);
+                if (tableContext.isColumnFolded(String(column.key))) {
+                    // Folded column - the cell is not mounted
+                    return (
+                        <div
+                            key={String(column.key)}
+                            className="shrink-0 border-[0.5px] border-neutral-200 box-border"
+                            style={{ width: FOLDED_COLUMN_WIDTH, backgroundColor: column.foldedColor ?? DEFAULT_FOLDED_COLOR, ...getPinnedStyle(column, pinnedOffsets, 2) }}
+                        />
+                    );
+                }
+
+                if (!cellId) {
+                    // Column was added after this row's cells were created
+                    return <div key={String(column.key)} className="shrink-0" style={{ width: `calc(${column.width} + 1px)`, ...getPinnedStyle(column, pinnedOffsets, 2) }} />;
+                }
 
                 // Create cell-specific registerCommands function
                 const cellRegisterCommands = createCellRegisterFunction(cellId);
@@ -292,7 +851,9 @@ function GridRow<TData>({ id, data, columns, rowIndex }: RowProps<TData>) {
                     id: cellId,
                     value: cellValue,
                     config: column, // This should have the proper cell config
-                    registerCommands: cellRegisterCommands
+                    registerCommands: cellRegisterCommands,
+                    commitValue: (value: unknown) => tableContext.commitCellValue(cellId, value),
+                    reportError: (error: unknown) => tableContext.reportCellError(cellId, error)
                 };
 
                 // Render the actual cell component wrapped in event-capturing container
@@ -301,10 +862,14 @@ function GridRow<TData>({ id, data, columns, rowIndex }: RowProps<TData>) {
                     <div
                         key={cellId}
                         className={cn(
-                            'border-[0.5px] border-neutral-200 inset-0 box-border'
+                            // select-none keeps drag selection from highlighting text
+                            'border-[0.5px] border-neutral-200 inset-0 box-border select-none shrink-0',
+                            // Scrolling cells pass underneath pinned ones
+                            column.pinned && 'bg-white'
                         )}
                         data-cell-id={cellId}
-                        style={{ width: `calc(${column.width} + 1px)` }}
+                        data-column-key={String(column.key)}
+                        style={{ width: `calc(${column.width} + 1px)`, ...getPinnedStyle(column, pinnedOffsets, 2) }}
                         onClick={(e) => tableContext.sendMouseEvent(cellId, 'click', e.nativeEvent)}
                         onDoubleClick={(e) => tableContext.sendMouseEvent(cellId, 'dblclick', e.nativeEvent)}
                         onContextMenu={(e) => tableContext.sendMouseEvent(cellId, 'contextmenu', e.nativeEvent)}
@@ -322,3 +887,30 @@ function GridRow<TData>({ id, data, columns, rowIndex }: RowProps<TData>) {
         </div>
     );
 }
+
+// Width an element needs to show its content on one line: the right edge of
+// its furthest text, input value or icon, plus the padding on that side
+function measureContentWidth(element: HTMLElement): number {
+    const whiteSpace = element.style.whiteSpace;
+    element.style.whiteSpace = 'nowrap';
+
+    const left = element.getBoundingClientRect().left;
+    let right = 0;
+
+    const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+    const range = document.createRange();
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        if (!node.textContent?.trim()) continue;
+        range.selectNodeContents(node);
+        right = Math.max(right, range.getBoundingClientRect().right - left);
+    }
+    element.querySelectorAll<HTMLElement>('input, textarea').forEach(input => {
+        right = Math.max(right, input.getBoundingClientRect().left - left + input.scrollWidth);
+    });
+    element.querySelectorAll('svg').forEach(icon => {
+        right = Math.max(right, icon.getBoundingClientRect().right - left);
+    });
+
+    element.style.whiteSpace = whiteSpace;
+    return right + AUTO_FIT_PADDING;
+}
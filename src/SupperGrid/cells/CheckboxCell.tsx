@@ -0,0 +1,130 @@
+import { useState, useEffect } from 'react';
+import type { CellComponent, BaseCellConfig, CellCommand } from '../core/types';
+import type { CheckboxValue } from './checkboxValue';
+import { nextCheckboxValue, toCheckboxValue } from './checkboxValue';
+import { cn } from '../core/utils';
+
+interface CheckboxCellConfig extends BaseCellConfig {
+    triState?: boolean; // null is a third "not set" state instead of unchecked
+    readOnly?: boolean;
+}
+
+// Toggled by clicking the box, or with Space through CheckboxPlugin. There is
+// no edit mode.
+export const CheckboxCell: CellComponent<boolean, CheckboxCellConfig> = ({
+    id,
+    value,
+    config,
+    registerCommands,
+    commitValue,
+    reportError
+}) => {
+    // Initialize state only once, ignore future prop changes
+    const [internalValue, setInternalValue] = useState<CheckboxValue>(() => toCheckboxValue(value) ?? null);
+    const [isFocused, setIsFocused] = useState(false);
+    const [isSelected, setIsSelected] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Register command handler when component mounts
+    useEffect(() => {
+        registerCommands((command: CellCommand) => {
+            switch (command.name) {
+                case 'focus':
+                    setIsFocused(true);
+                    break;
+
+                case 'blur':
+                    setIsFocused(false);
+                    break;
+
+                case 'select':
+                    setIsSelected(true);
+                    break;
+
+                case 'unselect':
+                    setIsSelected(false);
+                    break;
+
+                case 'updateValue':
+                    if (command.payload?.value !== undefined) {
+                        const next = toCheckboxValue(command.payload.value);
+                        if (next === undefined) {
+                            reportError(`"${command.payload.value}" is not true or false`);
+                        } else {
+                            setInternalValue(next);
+                            setError(null);
+                            // "yes", 1 and the like are written as booleans
+                            commitValue(next);
+                        }
+                    }
+                    break;
+
+                case 'error': {
+                    const reported = command.payload?.error;
+                    setError(reported instanceof Error ? reported.message : String(reported || 'An error occurred'));
+                    break;
+                }
+
+                default:
+                    // edit and exitEdit included - toggling needs no edit mode
+                    break;
+            }
+        });
+    }, [id, registerCommands, commitValue, reportError]);
+
+    const toggle = () => {
+        if (config.readOnly) return;
+        const next = nextCheckboxValue(internalValue, config.triState);
+        setInternalValue(next);
+        setError(null);
+        // Write back to the row data through the table
+        commitValue(next);
+    };
+
+    const isMixed = config.triState && internalValue === null;
+
+    return (
+        <div
+            className={cn(
+                'p-2 transition-colors flex items-center justify-center',
+                config.readOnly && 'bg-gray-100 cursor-not-allowed',
+                isSelected && isFocused
+                    ? 'bg-blue-100 ring-blue-400 ring-[0.5px]' // hybrid state
+                    : isSelected
+                        ? 'bg-blue-50 ring-blue-400 ring-[0.5px]'
+                        : isFocused
+                            ? 'bg-neutral-100 ring-neutral-800 ring-[0.5px]'
+                            : ''
+            )}
+            data-cell-id={id}
+            style={{ width: config.width }}
+        >
+            {/* Not focusable: Space is handled by the grid, a focused native checkbox would toggle twice */}
+            <span
+                role="checkbox"
+                aria-checked={isMixed ? 'mixed' : internalValue === true}
+                aria-readonly={config.readOnly}
+                className={cn(
+                    'checkbox-cell-box w-4 h-4 rounded-sm border flex items-center justify-center',
+                    internalValue === true || isMixed
+                        ? 'bg-blue-500 border-blue-500 text-white'
+                        : 'bg-white border-neutral-400',
+                    config.readOnly ? 'opacity-60' : 'cursor-pointer'
+                )}
+                onClick={toggle}
+            >
+                {internalValue === true && (
+                    <svg viewBox="0 0 16 16" className="w-3 h-3 fill-none stroke-current stroke-2">
+                        <path d="M3 8.5l3 3 7-7" />
+                    </svg>
+                )}
+                {isMixed && <span className="w-2 h-0.5 bg-current" />}
+            </span>
+            {error && (
+                <div className="checkbox-cell-error">
+                    {error}
+                </div>
+            )}
+        </div>
+    );
+};
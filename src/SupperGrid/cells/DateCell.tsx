@@ -0,0 +1,323 @@
+import { useState, useEffect, useRef } from 'react';
+import type { CellComponent, CellProps, BaseCellConfig, CellCommand } from '../core/types';
+import type { DateParts } from './dateUtils';
+import { formatDateParts, fromDateParts, getDateParts, getDayKey, getLocalePattern, parseDateInput, toDate } from './dateUtils';
+import { CalendarPopover } from '../components/CalendarPopover';
+import { cn, placeCaretAtEnd } from '../core/utils';
+
+interface DateCellConfig extends BaseCellConfig {
+    // Pattern of yyyy, yy, MM, M, dd, d, HH, H and mm (e.g. 'dd.MM.yyyy') or
+    // Intl options, the locale's medium date (and short time) by default
+    displayFormat?: string | Intl.DateTimeFormatOptions;
+    // Patterns tried on typed input before ISO (yyyy-MM-dd) and the locale's own
+    // order. The first one is also what the editor starts with.
+    parseFormats?: string[];
+    min?: Date | string;
+    max?: Date | string;
+    timeZone?: string; // IANA zone dates are shown and entered in, browser zone by default
+    locale?: string; // Browser locale by default
+    placeholder?: string;
+    readOnly?: boolean;
+}
+
+// Pattern the editor shows the value in
+function getEditPattern(config: DateCellConfig, withTime: boolean): string {
+    const pattern = config.parseFormats?.[0] ?? getLocalePattern(config.locale);
+    return withTime && !pattern.includes('H') ? `${pattern} HH:mm` : pattern;
+}
+
+function formatDate(date: Date, config: DateCellConfig, withTime: boolean): string {
+    if (typeof config.displayFormat === 'string') {
+        return formatDateParts(getDateParts(date, config.timeZone), config.displayFormat);
+    }
+    const options = config.displayFormat ?? (withTime ? { dateStyle: 'medium', timeStyle: 'short' } as const : { dateStyle: 'medium' } as const);
+    return new Intl.DateTimeFormat(config.locale, { ...options, timeZone: config.timeZone }).format(date);
+}
+
+function formatForEdit(date: Date | null, config: DateCellConfig, withTime: boolean): string {
+    return date ? formatDateParts(getDateParts(date, config.timeZone), getEditPattern(config, withTime)) : '';
+}
+
+// Instant of typed or picked parts. Dates without time are midnight in the zone.
+function toInstant(parts: DateParts, config: DateCellConfig, withTime: boolean): Date {
+    return fromDateParts(withTime ? parts : { ...parts, hour: 0, minute: 0 }, config.timeZone);
+}
+
+// Values from the row data or a paste: Dates, timestamps, typed text in the
+// cell's formats or full ISO strings. Empty is null, anything else that is
+// not a date is an Invalid Date.
+function toCellDate(value: unknown, config: DateCellConfig, withTime: boolean): Date | null {
+    if (typeof value === 'string') {
+        if (value.trim() === '') return null;
+        const parts = parseDateInput(value, config.parseFormats ?? [], config.locale, withTime);
+        if (parts) return toInstant(parts, config, withTime);
+    }
+    return toDate(value) ?? (value === null || value === undefined ? null : new Date(NaN));
+}
+
+// Message for a date outside min/max, null if it fits. Date cells compare days.
+function validateRange(date: Date, config: DateCellConfig, withTime: boolean): string | null {
+    const compare = (a: Date, b: Date) => withTime
+        ? a.getTime() - b.getTime()
+        : getDayKey(getDateParts(a, config.timeZone)) - getDayKey(getDateParts(b, config.timeZone));
+    const min = toDate(config.min);
+    const max = toDate(config.max);
+    if (min && compare(date, min) < 0) return `Must be on or after ${formatDate(min, config, withTime)}`;
+    if (max && compare(date, max) > 0) return `Must be on or before ${formatDate(max, config, withTime)}`;
+    return null;
+}
+
+const toParts = (date: Date | null, config: DateCellConfig) => (date ? getDateParts(date, config.timeZone) : null);
+
+// Shared by DateCell and DateTimeCell: a text input for typed dates with a
+// calendar below it while editing. Arrow Down moves into the calendar.
+function DateInputCell({
+    id,
+    value,
+    config,
+    registerCommands,
+    commitValue,
+    reportError,
+    withTime
+}: CellProps<Date | null, DateCellConfig> & { withTime: boolean }) {
+    // Initialize state only once, ignore future prop changes
+    const [internalValue, setInternalValue] = useState(() => {
+        const date = toCellDate(value, config, withTime);
+        return date && !Number.isNaN(date.getTime()) ? date : null;
+    });
+    const [draft, setDraft] = useState('');
+    const [isFocused, setIsFocused] = useState(false);
+    const [isSelected, setIsSelected] = useState(false);
+    const [isEditing, setIsEditing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // Latest value for the command handler, which is registered once
+    const valueRef = useRef(internalValue);
+    valueRef.current = internalValue;
+    // Latest exitEdit handling, for the same reason
+    const exitEditRef = useRef<(cancel: boolean) => boolean>(() => true);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const gridRef = useRef<HTMLDivElement>(null);
+
+    // Register command handler when component mounts
+    useEffect(() => {
+        registerCommands((command: CellCommand) => {
+            switch (command.name) {
+                case 'focus':
+                    setIsFocused(true);
+                    break;
+
+                case 'blur':
+                    setIsFocused(false);
+                    break;
+
+                case 'select':
+                    setIsSelected(true);
+                    break;
+
+                case 'unselect':
+                    setIsSelected(false);
+                    break;
+
+                case 'edit':
+                    if (!config.readOnly) {
+                        // Typing into the cell replaces its value
+                        setDraft(command.payload?.text ?? formatForEdit(valueRef.current, config, withTime));
+                        setIsEditing(true);
+                    }
+                    break;
+
+                case 'exitEdit':
+                    command.payload?.onResult?.(exitEditRef.current(command.payload?.cancel === true));
+                    break;
+
+                case 'updateValue':
+                    if (command.payload?.value !== undefined) {
+                        const next = toCellDate(command.payload.value, config, withTime);
+                        const rangeError = next === null || Number.isNaN(next.getTime()) ? null : validateRange(next, config, withTime);
+                        if (next !== null && Number.isNaN(next.getTime())) {
+                            reportError(`"${command.payload.value}" is not a date`);
+                        } else if (rangeError) {
+                            reportError(rangeError);
+                        } else {
+                            setInternalValue(next);
+                            setError(null);
+                            // Text and timestamps are written as Dates. A Date
+                            // for the same instant is kept, so equal values are
+                            // not written again.
+                            const input = command.payload.value;
+                            commitValue(input instanceof Date && input.getTime() === next?.getTime() ? input : next);
+                        }
+                    }
+                    break;
+
+                case 'error': {
+                    const reported = command.payload?.error;
+                    setError(reported instanceof Error ? reported.message : String(reported || 'An error occurred'));
+                    break;
+                }
+
+                default:
+                    // Ignore unknown commands
+                    break;
+            }
+        });
+    }, [id, registerCommands, config, commitValue, reportError, withTime]);
+
+    const draftParts = draft.trim() === '' ? null : parseDateInput(draft, config.parseFormats ?? [], config.locale, withTime);
+    // Time kept when a day is picked, from the draft or else the value
+    const timeParts = draftParts ?? toParts(internalValue, config);
+
+    // Check and store parts (null clears the date). Returns false (after
+    // reporting why) when they cannot be committed.
+    const commitParts = (parts: DateParts | null): boolean => {
+        const next = parts === null ? null : toInstant(parts, config, withTime);
+        const rangeError = next === null ? null : validateRange(next, config, withTime);
+        if (rangeError) {
+            reportError(rangeError);
+            return false;
+        }
+
+        setIsEditing(false);
+        setError(null);
+        setInternalValue(next);
+        // Write back to the row data through the table
+        if (next?.getTime() !== internalValue?.getTime()) {
+            commitValue(next);
+        }
+        return true;
+    };
+
+    const commitDraft = (): boolean => {
+        if (draft.trim() === '') return commitParts(null);
+        if (!draftParts) {
+            reportError(`"${draft}" is not a date`);
+            return false;
+        }
+        return commitParts(draftParts);
+    };
+
+    const cancelEdit = () => {
+        setIsEditing(false);
+        setError(null);
+    };
+
+    const handlePick = (day: DateParts) => {
+        if (!withTime) {
+            commitParts(day);
+            return;
+        }
+        // Date and time cells keep the time and go back to the text input
+        setDraft(formatDateParts({ ...day, hour: timeParts?.hour ?? 0, minute: timeParts?.minute ?? 0 }, getEditPattern(config, withTime)));
+        setError(null);
+        inputRef.current?.focus();
+    };
+
+    const handleTimeChange = (time: string) => {
+        const [hour, minute] = time.split(':').map(Number);
+        if (Number.isNaN(hour) || Number.isNaN(minute)) return;
+        const day = draftParts ?? toParts(internalValue, config) ?? getDateParts(new Date(), config.timeZone);
+        setDraft(formatDateParts({ ...day, hour, minute }, getEditPattern(config, withTime)));
+        setError(null);
+    };
+
+    const handleBlur = (e: React.FocusEvent) => {
+        // Moving between the input and the calendar keeps editing
+        if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+        // Invalid input is dropped when leaving the cell, the error stays visible
+        if (!commitDraft()) {
+            setIsEditing(false);
+        }
+    };
+
+    // A rejected commit keeps editing
+    exitEditRef.current = (cancel) => {
+        if (!isEditing) return true;
+        if (!cancel) return commitDraft();
+        cancelEdit();
+        return true;
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            gridRef.current?.focus();
+        }
+    };
+
+    const pad = (number: number) => String(number).padStart(2, '0');
+    const editing = isEditing && !config.readOnly;
+
+    return (
+        <div
+            className={cn(
+                'p-2 transition-colors relative',
+                config.readOnly && 'bg-gray-100 cursor-not-allowed',
+                isSelected && isFocused
+                    ? 'bg-blue-100 ring-blue-400 ring-[0.5px]' // hybrid state
+                    : isSelected
+                        ? 'bg-blue-50 ring-blue-400 ring-[0.5px]'
+                        : isFocused
+                            ? 'bg-neutral-100 ring-neutral-800 ring-[0.5px]'
+                            : ''
+            )}
+            data-cell-id={id}
+            style={{ width: config.width }}
+        >
+            {editing ? (
+                <div onBlur={handleBlur}>
+                    <input
+                        ref={inputRef}
+                        type="text"
+                        value={draft}
+                        onChange={(e) => {
+                            setDraft(e.target.value);
+                            setError(null);
+                        }}
+                        onFocus={(e) => placeCaretAtEnd(e.currentTarget)}
+                        onKeyDown={handleKeyDown}
+                        placeholder={config.placeholder ?? getEditPattern(config, withTime).toLowerCase()}
+                        autoFocus
+                        className="date-cell-input w-full"
+                    />
+                    <CalendarPopover
+                        value={draftParts ?? (draft.trim() === '' ? null : toParts(internalValue, config))}
+                        min={toParts(toDate(config.min), config)}
+                        max={toParts(toDate(config.max), config)}
+                        locale={config.locale}
+                        timeZone={config.timeZone}
+                        gridRef={gridRef}
+                        onPick={handlePick}
+                        onCancel={cancelEdit}
+                    >
+                        {withTime && (
+                            <input
+                                type="time"
+                                aria-label="Time"
+                                value={timeParts ? `${pad(timeParts.hour)}:${pad(timeParts.minute)}` : ''}
+                                onChange={(e) => handleTimeChange(e.target.value)}
+                                className="date-cell-time mt-2 w-full rounded border border-neutral-300 px-2 py-1 outline-none focus:border-neutral-500"
+                            />
+                        )}
+                    </CalendarPopover>
+                </div>
+            ) : (
+                <span className="date-cell-display">
+                    {internalValue !== null ? formatDate(internalValue, config, withTime) : config.placeholder || ''}
+                </span>
+            )}
+            {error && (
+                <div className="date-cell-error">
+                    {error}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export const DateCell: CellComponent<Date, DateCellConfig> = (props) => (
+    <DateInputCell {...props} withTime={false} />
+);
+
+export const DateTimeCell: CellComponent<Date, DateCellConfig> = (props) => (
+    <DateInputCell {...props} withTime />
+);
@@ -0,0 +1,252 @@
+import { useState, useEffect, useRef } from 'react';
+import type { CellComponent, BaseCellConfig, CellCommand } from '../core/types';
+import { cn, placeCaretAtEnd } from '../core/utils';
+import { parseLocaleNumber, toNumber } from './numberValue';
+
+interface NumberCellConfig extends BaseCellConfig {
+    precision?: number; // Fraction digits shown, edited values are rounded to it
+    min?: number;
+    max?: number;
+    step?: number; // Arrow Up/Down while editing, 1 by default
+    format?: 'decimal' | 'currency' | 'percent'; // percent shows 0.25 as 25%
+    currency?: string; // ISO 4217 code for the currency format, USD by default
+    locale?: string; // Browser locale by default
+    placeholder?: string;
+    readOnly?: boolean;
+}
+
+function formatNumber(value: number, config: NumberCellConfig): string {
+    return new Intl.NumberFormat(config.locale, {
+        style: config.format ?? 'decimal',
+        currency: config.format === 'currency' ? config.currency ?? 'USD' : undefined,
+        minimumFractionDigits: config.precision,
+        maximumFractionDigits: config.precision
+    }).format(value);
+}
+
+// Percent values are edited as shown (25 for 0.25)
+const percentScale = (config: NumberCellConfig) => (config.format === 'percent' ? 100 : 1);
+
+function formatForEdit(value: number | null, config: NumberCellConfig): string {
+    if (value === null) return '';
+    return new Intl.NumberFormat(config.locale, { useGrouping: false, maximumFractionDigits: 10 })
+        .format(value * percentScale(config));
+}
+
+function roundToPrecision(value: number, config: NumberCellConfig): number {
+    if (config.precision === undefined) return value;
+    const factor = 10 ** (config.precision + (config.format === 'percent' ? 2 : 0));
+    return Math.round(value * factor) / factor;
+}
+
+function clamp(value: number, config: NumberCellConfig): number {
+    return Math.min(config.max ?? Infinity, Math.max(config.min ?? -Infinity, value));
+}
+
+// Values from a paste, setRowValue or undo/redo. Numbers and plain text are
+// values as stored (0.25 in a percent column), text with a percent sign is
+// as shown (25%). NaN if it is not a number.
+function toStoredNumber(value: unknown, config: NumberCellConfig): number | null {
+    const next = toNumber(value, config.locale);
+    if (next === null || Number.isNaN(next)) return next;
+    const shown = typeof value === 'string' && value.includes('%');
+    return roundToPrecision(shown ? next / percentScale(config) : next, config);
+}
+
+// Message for a value outside min/max, null if it fits
+function validateRange(value: number, config: NumberCellConfig): string | null {
+    if (config.min !== undefined && value < config.min) return `Must be at least ${formatNumber(config.min, config)}`;
+    if (config.max !== undefined && value > config.max) return `Must be at most ${formatNumber(config.max, config)}`;
+    return null;
+}
+
+export const NumberCell: CellComponent<number, NumberCellConfig> = ({
+    id,
+    value,
+    config,
+    registerCommands,
+    commitValue,
+    reportError
+}) => {
+    // Initialize state only once, ignore future prop changes
+    const [internalValue, setInternalValue] = useState(() => toNumber(value, config.locale) ?? null);
+    const [draft, setDraft] = useState('');
+    const [isFocused, setIsFocused] = useState(false);
+    const [isSelected, setIsSelected] = useState(false);
+    const [isEditing, setIsEditing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // Latest value for the command handler, which is registered once
+    const valueRef = useRef(internalValue);
+    valueRef.current = internalValue;
+    // Latest exitEdit handling, for the same reason
+    const exitEditRef = useRef<(cancel: boolean) => boolean>(() => true);
+
+    // Register command handler when component mounts
+    useEffect(() => {
+        registerCommands((command: CellCommand) => {
+            switch (command.name) {
+                case 'focus':
+                    setIsFocused(true);
+                    break;
+
+                case 'blur':
+                    setIsFocused(false);
+                    break;
+
+                case 'select':
+                    setIsSelected(true);
+                    break;
+
+                case 'unselect':
+                    setIsSelected(false);
+                    break;
+
+                case 'edit':
+                    if (!config.readOnly) {
+                        // Typing into the cell replaces its value
+                        setDraft(command.payload?.text ?? formatForEdit(valueRef.current, config));
+                        setIsEditing(true);
+                    }
+                    break;
+
+                case 'exitEdit':
+                    command.payload?.onResult?.(exitEditRef.current(command.payload?.cancel === true));
+                    break;
+
+                case 'updateValue':
+                    if (command.payload?.value !== undefined) {
+                        const next = toStoredNumber(command.payload.value, config);
+                        const rangeError = next === null || Number.isNaN(next) ? null : validateRange(next, config);
+                        if (next !== null && Number.isNaN(next)) {
+                            reportError(`"${command.payload.value}" is not a number`);
+                        } else if (rangeError) {
+                            reportError(rangeError);
+                        } else {
+                            setInternalValue(next);
+                            setError(null);
+                            // The parsed number is written, not the text it came from
+                            commitValue(next);
+                        }
+                    }
+                    break;
+
+                case 'error': {
+                    const reported = command.payload?.error;
+                    setError(reported instanceof Error ? reported.message : String(reported || 'An error occurred'));
+                    break;
+                }
+
+                default:
+                    // Ignore unknown commands
+                    break;
+            }
+        });
+    }, [id, registerCommands, config, commitValue, reportError]);
+
+    // Parse and check the draft. Returns false (after reporting why) when it
+    // cannot be committed.
+    const commitEdit = (): boolean => {
+        const parsed = parseLocaleNumber(draft, config.locale);
+        if (parsed !== null && Number.isNaN(parsed)) {
+            reportError(`"${draft}" is not a number`);
+            return false;
+        }
+
+        const next = parsed === null ? null : roundToPrecision(parsed / percentScale(config), config);
+        const rangeError = next === null ? null : validateRange(next, config);
+        if (rangeError) {
+            reportError(rangeError);
+            return false;
+        }
+
+        setIsEditing(false);
+        setError(null);
+        setInternalValue(next);
+        // Write back to the row data through the table
+        if (next !== internalValue) {
+            commitValue(next);
+        }
+        return true;
+    };
+
+    const stepDraft = (direction: 1 | -1) => {
+        const parsed = parseLocaleNumber(draft, config.locale);
+        const base = parsed === null || Number.isNaN(parsed)
+            ? (internalValue ?? 0) * percentScale(config)
+            : parsed;
+        const scale = percentScale(config);
+        const next = clamp(roundToPrecision((base + direction * (config.step ?? 1)) / scale, config), config);
+        setDraft(formatForEdit(next, config));
+        setError(null);
+    };
+
+    const handleBlur = () => {
+        // Invalid input is dropped when leaving the cell, the error stays visible
+        if (!commitEdit()) {
+            setIsEditing(false);
+        }
+    };
+
+    // A rejected commit keeps editing, cancel drops the draft
+    exitEditRef.current = (cancel) => {
+        if (!isEditing) return true;
+        if (!cancel) return commitEdit();
+        setIsEditing(false);
+        setError(null);
+        return true;
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+            // Arrows change the number instead of moving the focus
+            e.preventDefault();
+            e.stopPropagation();
+            stepDraft(e.key === 'ArrowUp' ? 1 : -1);
+        }
+    };
+
+    return (
+        <div
+            className={cn(
+                'p-2 transition-colors text-right tabular-nums',
+                config.readOnly && 'bg-gray-100 cursor-not-allowed',
+                isSelected && isFocused
+                    ? 'bg-blue-100 ring-blue-400 ring-[0.5px]' // hybrid state
+                    : isSelected
+                        ? 'bg-blue-50 ring-blue-400 ring-[0.5px]'
+                        : isFocused
+                            ? 'bg-neutral-100 ring-neutral-800 ring-[0.5px]'
+                            : ''
+            )}
+            data-cell-id={id}
+            style={{ width: config.width }}
+        >
+            {isEditing && !config.readOnly ? (
+                <input
+                    type="text"
+                    inputMode="decimal"
+                    value={draft}
+                    onChange={(e) => {
+                        setDraft(e.target.value);
+                        setError(null);
+                    }}
+                    onBlur={handleBlur}
+                    onFocus={(e) => placeCaretAtEnd(e.currentTarget)}
+                    onKeyDown={handleKeyDown}
+                    placeholder={config.placeholder}
+                    autoFocus
+                    className="number-cell-input w-full text-right"
+                />
+            ) : (
+                <span className="number-cell-display">
+                    {internalValue !== null ? formatNumber(internalValue, config) : config.placeholder || ''}
+                </span>
+            )}
+            {error && (
+                <div className="number-cell-error">
+                    {error}
+                </div>
+            )}
+        </div>
+    );
+};
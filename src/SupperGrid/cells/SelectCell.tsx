@@ -0,0 +1,278 @@
+import { useState, useEffect, useRef } from 'react';
+import type { CellComponent, CellProps, BaseCellConfig, CellCommand } from '../core/types';
+import type { OptionSource, SelectOption, SelectValue } from './selectOptions';
+import { findOption, matchOption, resolveOption } from './selectOptions';
+import { OptionTag, SelectDropdown } from '../components/SelectDropdown';
+import { cn } from '../core/utils';
+
+interface SelectCellConfig extends BaseCellConfig {
+    // Allowed values: an array, or an async loader called with the typed text
+    options: OptionSource;
+    placeholder?: string;
+    readOnly?: boolean;
+}
+
+// Values from the row data or a paste as a list. Multi select cells also take
+// comma separated text, which is how they are copied.
+function toItems(value: unknown, multiple: boolean): unknown[] {
+    if (value === null || value === undefined || value === '') return [];
+    if (Array.isArray(value)) return value;
+    if (multiple && typeof value === 'string') {
+        return value.split(',').map(item => item.trim()).filter(item => item !== '');
+    }
+    return [value];
+}
+
+const sameValues = (a: SelectValue[], b: SelectValue[]) =>
+    a.length === b.length && a.every((value, index) => String(value) === String(b[index]));
+
+// Option of a value, or the plain value until its option is known
+const getOption = (source: OptionSource, value: SelectValue): SelectOption =>
+    findOption(source, value) ?? { value, label: String(value) };
+
+// Shared by SelectCell and MultiSelectCell. Both keep a list of values, a
+// select cell holds at most one of them and commits it on its own (T follows
+// `multiple`).
+function SelectInputCell<T extends SelectValue | SelectValue[]>({
+    id,
+    value,
+    config,
+    registerCommands,
+    commitValue,
+    reportError,
+    multiple
+}: CellProps<T, SelectCellConfig> & { multiple: boolean }) {
+    // Initialize state only once, ignore future prop changes
+    const [internalValue, setInternalValue] = useState(() => toItems(value, multiple) as SelectValue[]);
+    const [draft, setDraft] = useState<SelectValue[]>([]);
+    const [editQuery, setEditQuery] = useState('');
+    const [isFocused, setIsFocused] = useState(false);
+    const [isSelected, setIsSelected] = useState(false);
+    const [isEditing, setIsEditing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // Re-render once a loader knows the labels of the values
+    const [, setLabelsLoaded] = useState(0);
+    // Latest value for the command handler, which is registered once
+    const valueRef = useRef(internalValue);
+    valueRef.current = internalValue;
+    // Set right away (not on the next render): Enter picks a single value and
+    // then reaches EditingPlugin, whose exitEdit must find the edit done
+    const editingRef = useRef(false);
+    // Latest exitEdit handling, the command handler is registered once
+    const exitEditRef = useRef<(cancel: boolean) => boolean>(() => true);
+
+    // Register command handler when component mounts
+    useEffect(() => {
+        // Values are checked against the options, answers to older updates are dropped
+        let update = 0;
+
+        registerCommands((command: CellCommand) => {
+            switch (command.name) {
+                case 'focus':
+                    setIsFocused(true);
+                    break;
+
+                case 'blur':
+                    setIsFocused(false);
+                    break;
+
+                case 'select':
+                    setIsSelected(true);
+                    break;
+
+                case 'unselect':
+                    setIsSelected(false);
+                    break;
+
+                case 'edit':
+                    if (!config.readOnly) {
+                        setDraft(valueRef.current);
+                        // Typing into the cell starts filtering
+                        setEditQuery(command.payload?.text ?? '');
+                        setIsEditing(true);
+                        editingRef.current = true;
+                    }
+                    break;
+
+                case 'exitEdit':
+                    command.payload?.onResult?.(exitEditRef.current(command.payload?.cancel === true));
+                    break;
+
+                case 'updateValue': {
+                    if (command.payload?.value === undefined) break;
+                    const input = command.payload.value;
+                    const items = toItems(input, multiple);
+                    if (!multiple && items.length > 1) {
+                        reportError('Only one value can be selected');
+                        break;
+                    }
+
+                    // Labels are resolved to option values, and those are written
+                    const apply = (options: (SelectOption | null)[]) => {
+                        const missing = items.find((_, index) => options[index] === null);
+                        if (missing !== undefined) {
+                            reportError(`"${missing}" is not an option`);
+                            return;
+                        }
+                        const values = options.map(option => option!.value);
+                        setInternalValue(values);
+                        setError(null);
+                        commitValue((input === null ? null : multiple ? values : values[0] ?? null) as T | null);
+                    };
+
+                    const current = ++update;
+                    const known = items.map(item => matchOption(config.options, item));
+                    if (known.every((option): option is SelectOption | null => option !== undefined)) {
+                        // Static lists answer right away, while the command is delivered
+                        apply(known);
+                        break;
+                    }
+
+                    Promise.all(items.map(item => resolveOption(config.options, item)))
+                        .then(options => {
+                            if (current === update) apply(options);
+                        })
+                        .catch(loadError => {
+                            if (current === update) reportError(loadError);
+                        });
+                    break;
+                }
+
+                case 'error': {
+                    const reported = command.payload?.error;
+                    setError(reported instanceof Error ? reported.message : String(reported || 'An error occurred'));
+                    break;
+                }
+
+                default:
+                    // Ignore unknown commands
+                    break;
+            }
+        });
+    }, [id, registerCommands, config, commitValue, reportError, multiple]);
+
+    // Labels of values a loader has not returned yet
+    useEffect(() => {
+        const unknown = internalValue.filter(item => !findOption(config.options, item));
+        if (unknown.length === 0 || Array.isArray(config.options)) return;
+
+        let cancelled = false;
+        Promise.all(unknown.map(item => resolveOption(config.options, item)))
+            .then(() => {
+                if (!cancelled) setLabelsLoaded(count => count + 1);
+            })
+            .catch(loadError => console.error(`Cell ${id}: Could not load option labels:`, loadError));
+        return () => {
+            cancelled = true;
+        };
+    }, [id, config.options, internalValue]);
+
+    const stopEditing = () => {
+        setIsEditing(false);
+        editingRef.current = false;
+    };
+
+    const commitValues = (values: SelectValue[]) => {
+        stopEditing();
+        setError(null);
+        setInternalValue(values);
+        // Write back to the row data through the table
+        if (!sameValues(values, internalValue)) {
+            commitValue((multiple ? values : values[0] ?? null) as T | null);
+        }
+    };
+
+    const handlePick = (option: SelectOption) => {
+        if (!multiple) {
+            commitValues([option.value]);
+            return;
+        }
+        const picked = draft.some(item => String(item) === String(option.value));
+        setDraft(picked ? draft.filter(item => String(item) !== String(option.value)) : [...draft, option.value]);
+    };
+
+    const removeValue = (value: SelectValue) => {
+        setDraft(draft.filter(item => String(item) !== String(value)));
+    };
+
+    // Picked values are always options, so the edit is accepted
+    exitEditRef.current = (cancel) => {
+        if (!editingRef.current) return true;
+        if (cancel) {
+            stopEditing();
+            setError(null);
+        } else {
+            commitValues(draft);
+        }
+        return true;
+    };
+
+    const handleBlur = (e: React.FocusEvent) => {
+        // Focus moving inside the editor keeps editing
+        if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+        commitValues(draft);
+    };
+
+    const editing = isEditing && !config.readOnly;
+
+    return (
+        <div
+            className={cn(
+                'p-2 transition-colors relative',
+                config.readOnly && 'bg-gray-100 cursor-not-allowed',
+                isSelected && isFocused
+                    ? 'bg-blue-100 ring-blue-400 ring-[0.5px]' // hybrid state
+                    : isSelected
+                        ? 'bg-blue-50 ring-blue-400 ring-[0.5px]'
+                        : isFocused
+                            ? 'bg-neutral-100 ring-neutral-800 ring-[0.5px]'
+                            : ''
+            )}
+            data-cell-id={id}
+            style={{ width: config.width }}
+        >
+            {editing ? (
+                <div onBlur={handleBlur}>
+                    <SelectDropdown
+                        source={config.options}
+                        selected={draft}
+                        multiple={multiple}
+                        placeholder={draft.length === 0 ? config.placeholder : undefined}
+                        initialQuery={editQuery}
+                        onPick={handlePick}
+                        onRemoveLast={() => setDraft(draft.slice(0, -1))}
+                    >
+                        {draft.map(item => (
+                            <OptionTag key={String(item)} option={getOption(config.options, item)} onRemove={() => removeValue(item)} />
+                        ))}
+                    </SelectDropdown>
+                </div>
+            ) : internalValue.length > 0 ? (
+                <span className="select-cell-display flex flex-wrap gap-1">
+                    {internalValue.map(item => {
+                        const option = getOption(config.options, item);
+                        // Plain text for single values without a color
+                        return multiple || option.color
+                            ? <OptionTag key={String(item)} option={option} />
+                            : <span key={String(item)} className="truncate">{option.label}</span>;
+                    })}
+                </span>
+            ) : (
+                <span className="select-cell-display">{config.placeholder || ''}</span>
+            )}
+            {error && (
+                <div className="select-cell-error">
+                    {error}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export const SelectCell: CellComponent<SelectValue, SelectCellConfig> = (props) => (
+    <SelectInputCell {...props} multiple={false} />
+);
+
+export const MultiSelectCell: CellComponent<SelectValue[], SelectCellConfig> = (props) => (
+    <SelectInputCell {...props} multiple />
+);
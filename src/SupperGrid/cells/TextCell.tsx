@@ -1,6 +1,6 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import type { CellComponent, BaseCellConfig, CellCommand } from '../core/types';
-import { cn } from '../core/utils';
+import { cn, placeCaretAtEnd } from '../core/utils';
 
 interface TextCellConfig extends BaseCellConfig {
     placeholder?: string;
@@ -12,7 +12,8 @@ export const TextCell: CellComponent<string, TextCellConfig> = ({
     id,
     value,
     config,
-    registerCommands
+    registerCommands,
+    commitValue
 }) => {
     // Initialize state only once, ignore future prop changes
     const [internalValue, setInternalValue] = useState(() => value ?? '');
@@ -20,6 +21,17 @@ export const TextCell: CellComponent<string, TextCellConfig> = ({
     const [isSelected, setIsSelected] = useState(false);
     const [isEditing, setIsEditing] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    // Value when editing started, so unchanged edits are not written back
+    // and Escape can restore it
+    const editStartValueRef = useRef<string>('');
+    // Latest value for the command handler, which is registered once
+    const valueRef = useRef(internalValue);
+    valueRef.current = internalValue;
+    // Set right away (not on the next render): Enter and Escape are handled
+    // here and then reach EditingPlugin, whose exitEdit must find the edit done
+    const editingRef = useRef(false);
+    // Latest exitEdit handling, the command handler is registered once
+    const exitEditRef = useRef<(cancel: boolean) => boolean>(() => true);
 
     // Register command handler when component mounts
     useEffect(() => {
@@ -44,17 +56,29 @@ export const TextCell: CellComponent<string, TextCellConfig> = ({
 
                 case 'edit':
                     if (!config.readOnly) {
+                        const text = command.payload?.text;
+                        editStartValueRef.current = valueRef.current;
+                        // Typing into the cell replaces its value
+                        if (text !== undefined) {
+                            setInternalValue(text.slice(0, config.maxLength));
+                        }
                         setIsEditing(true);
+                        editingRef.current = true;
                     }
                     break;
 
                 case 'exitEdit':
-                    setIsEditing(false);
+                    command.payload?.onResult?.(exitEditRef.current(command.payload?.cancel === true));
                     break;
 
                 case 'updateValue':
                     if (command.payload?.value !== undefined) {
-                        setInternalValue(command.payload.value ?? '');
+                        // Any value is shown as text; the text is what goes into the row data
+                        const next = command.payload.value === null
+                            ? null
+                            : String(command.payload.value).slice(0, config.maxLength);
+                        setInternalValue(next ?? '');
+                        commitValue(next);
                     }
                     break;
 
@@ -67,7 +91,7 @@ export const TextCell: CellComponent<string, TextCellConfig> = ({
                     break;
             }
         });
-    }, [registerCommands, config.readOnly]);
+    }, [id, registerCommands, commitValue, config.readOnly, config.maxLength]);
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const newValue = e.target.value;
@@ -77,21 +101,40 @@ export const TextCell: CellComponent<string, TextCellConfig> = ({
         }
     };
 
-    const handleBlur = () => {
+    const commitEdit = () => {
         setIsEditing(false);
-        // Value is maintained in cell state, no need to sync back to props
+        editingRef.current = false;
+        // Write back to the row data through the table
+        if (internalValue !== editStartValueRef.current) {
+            editStartValueRef.current = internalValue;
+            commitValue(internalValue);
+        }
     };
 
-    const handleKeyDown = (e: React.KeyboardEvent) => {
-        if (e.key === 'Enter') {
-            setIsEditing(false);
-        } else if (e.key === 'Escape') {
-            // Reset to current internal value (no props dependency)
-            // Could reset to last saved value if we track that
+    const handleBlur = () => {
+        commitEdit();
+    };
+
+    // Any text is accepted
+    exitEditRef.current = (cancel) => {
+        if (!editingRef.current) return true;
+        if (cancel) {
+            setInternalValue(editStartValueRef.current);
             setIsEditing(false);
+            editingRef.current = false;
+            setError(null);
+        } else {
+            commitEdit();
         }
+        return true;
     };
 
+    // Enter and Escape also work in grids without EditingPlugin
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter' || e.key === 'Escape') {
+            exitEditRef.current(e.key === 'Escape');
+        }
+    };
 
     return (
         <div
@@ -115,6 +158,7 @@ export const TextCell: CellComponent<string, TextCellConfig> = ({
                     value={internalValue}
                     onChange={handleChange}
                     onBlur={handleBlur}
+                    onFocus={(e) => placeCaretAtEnd(e.currentTarget)}
                     onKeyDown={handleKeyDown}
                     placeholder={config.placeholder}
                     maxLength={config.maxLength}
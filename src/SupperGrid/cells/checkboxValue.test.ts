@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { nextCheckboxValue, toCheckboxValue } from './checkboxValue';
+
+describe('toCheckboxValue', () => {
+    it('reads booleans, numbers and common words', () => {
+        expect(toCheckboxValue(true)).toBe(true);
+        expect(toCheckboxValue(0)).toBe(false);
+        expect(toCheckboxValue(' Yes ')).toBe(true);
+        expect(toCheckboxValue('x')).toBe(true);
+        expect(toCheckboxValue('off')).toBe(false);
+    });
+
+    it('treats empty values as not set and rejects anything else', () => {
+        expect(toCheckboxValue(null)).toBeNull();
+        expect(toCheckboxValue('')).toBeNull();
+        expect(toCheckboxValue('maybe')).toBeUndefined();
+    });
+});
+
+describe('nextCheckboxValue', () => {
+    it('flips two-state values, not set counting as unchecked', () => {
+        expect(nextCheckboxValue(true)).toBe(false);
+        expect(nextCheckboxValue(false)).toBe(true);
+        expect(nextCheckboxValue(null)).toBe(true);
+    });
+
+    it('cycles unchecked, checked and not set in tri-state cells', () => {
+        expect(nextCheckboxValue(false, true)).toBe(true);
+        expect(nextCheckboxValue(true, true)).toBeNull();
+        expect(nextCheckboxValue(null, true)).toBe(false);
+    });
+});
@@ -0,0 +1,27 @@
+// Values of CheckboxCell. null is "not set", shown as its own state in
+// tri-state cells and as unchecked otherwise.
+
+export type CheckboxValue = boolean | null;
+
+const TRUE_TEXT = ['true', 'yes', 'y', '1', 'x', '✓', 'on'];
+const FALSE_TEXT = ['false', 'no', 'n', '0', 'off'];
+
+// Values from the row data or a paste. undefined if it is not a boolean.
+export function toCheckboxValue(value: unknown): CheckboxValue | undefined {
+    if (value === null || value === undefined || value === '') return null;
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'number') return value !== 0;
+    const text = String(value).trim().toLowerCase();
+    if (TRUE_TEXT.includes(text)) return true;
+    if (FALSE_TEXT.includes(text)) return false;
+    return undefined;
+}
+
+// Value after a toggle: unchecked → checked → not set → unchecked in tri-state
+// cells, checked ↔ unchecked otherwise
+export function nextCheckboxValue(value: CheckboxValue, triState = false): CheckboxValue {
+    if (!triState) return value !== true;
+    if (value === false) return true;
+    if (value === true) return null;
+    return false;
+}
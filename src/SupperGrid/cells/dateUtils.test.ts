@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { addMonths, daysInMonth, formatDateParts, fromDateParts, getDateParts, getLocalePattern, parseDateInput, toDate } from './dateUtils';
+
+const parts = (year: number, month: number, day: number, hour = 0, minute = 0) => ({ year, month, day, hour, minute });
+
+describe('time zones', () => {
+    it('converts between instants and wall-clock parts', () => {
+        const date = new Date('2024-03-01T12:30:00Z');
+        expect(getDateParts(date, 'Europe/Berlin')).toEqual(parts(2024, 3, 1, 13, 30));
+        expect(fromDateParts(parts(2024, 3, 1, 13, 30), 'Europe/Berlin').toISOString()).toBe('2024-03-01T12:30:00.000Z');
+        expect(fromDateParts(parts(2024, 7, 1, 9, 0), 'America/New_York').toISOString()).toBe('2024-07-01T13:00:00.000Z');
+    });
+
+    it('moves times skipped by a DST change forward', () => {
+        const date = fromDateParts(parts(2024, 3, 31, 2, 30), 'Europe/Berlin');
+        expect(getDateParts(date, 'Europe/Berlin')).toEqual(parts(2024, 3, 31, 3, 30));
+    });
+});
+
+describe('calendar arithmetic', () => {
+    it('knows month lengths and clamps the day when adding months', () => {
+        expect(daysInMonth(2024, 2)).toBe(29);
+        expect(daysInMonth(2023, 2)).toBe(28);
+        expect(addMonths(parts(2024, 1, 31), 1)).toEqual(parts(2024, 2, 29));
+        expect(addMonths(parts(2024, 12, 15), 1)).toEqual(parts(2025, 1, 15));
+    });
+
+    it('reads dates, timestamps and ISO strings', () => {
+        expect(toDate('2024-01-02T00:00:00Z')?.toISOString()).toBe('2024-01-02T00:00:00.000Z');
+        expect(toDate(0)?.getTime()).toBe(0);
+        expect(toDate('')).toBeNull();
+        expect(toDate('not a date')).toBeNull();
+    });
+});
+
+describe('formatting and parsing', () => {
+    it('formats with pattern tokens', () => {
+        expect(formatDateParts(parts(2024, 3, 5, 7, 4), 'dd.MM.yyyy HH:mm')).toBe('05.03.2024 07:04');
+        expect(formatDateParts(parts(2024, 3, 5), 'M/d/yy')).toBe('3/5/24');
+    });
+
+    it('derives the numeric pattern of a locale', () => {
+        expect(getLocalePattern('en-US')).toBe('MM/dd/yyyy');
+        expect(getLocalePattern('de-DE')).toBe('dd.MM.yyyy');
+    });
+
+    it('parses custom patterns, ISO and the locale order with loose separators', () => {
+        expect(parseDateInput('5/3/2024', ['d/M/yyyy'], 'en-US', false)).toEqual(parts(2024, 3, 5));
+        expect(parseDateInput('2024-03-05', [], 'en-US', false)).toEqual(parts(2024, 3, 5));
+        expect(parseDateInput('03.05.2024', [], 'en-US', false)).toEqual(parts(2024, 3, 5));
+    });
+
+    it('takes an optional time when the cell has one', () => {
+        expect(parseDateInput('2024-03-05 14:30', [], 'en-US', true)).toEqual(parts(2024, 3, 5, 14, 30));
+        expect(parseDateInput('2024-03-05', [], 'en-US', true)).toEqual(parts(2024, 3, 5));
+        expect(parseDateInput('2024-03-05 14:30', [], 'en-US', false)).toBeNull();
+    });
+
+    it('rejects impossible dates', () => {
+        expect(parseDateInput('2023-02-29', [], 'en-US', false)).toBeNull();
+        expect(parseDateInput('hello', [], 'en-US', false)).toBeNull();
+    });
+});
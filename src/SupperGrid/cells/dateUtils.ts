@@ -0,0 +1,187 @@
+// Wall-clock dates for DateCell / DateTimeCell. Cells store Date instants;
+// they are shown, typed and picked as parts in the column's time zone.
+
+export type DateParts = {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+};
+
+const TOKENS = /(yyyy|yy|MM|M|dd|d|HH|H|mm)/;
+
+// Parts of an instant in a time zone (browser zone by default)
+export function getDateParts(date: Date, timeZone?: string): DateParts {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        hourCycle: 'h23'
+    }).formatToParts(date);
+    const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+    return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour') % 24, minute: get('minute') };
+}
+
+// Milliseconds the zone is ahead of UTC at an instant
+function getZoneOffset(date: Date, timeZone?: string): number {
+    const parts = getDateParts(date, timeZone);
+    const wallTime = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+    return wallTime - Math.floor(date.getTime() / 60000) * 60000;
+}
+
+// Instant of wall-clock parts in a time zone. The offset is looked up twice,
+// so times next to a DST change land on the right side of it. Times skipped
+// by a DST change fit neither offset and move forward (02:30 becomes 03:30).
+export function fromDateParts(parts: DateParts, timeZone?: string): Date {
+    const wallTime = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+    const fits = (date: Date) => getZoneOffset(date, timeZone) === wallTime - date.getTime();
+
+    const first = new Date(wallTime - getZoneOffset(new Date(wallTime), timeZone));
+    if (fits(first)) return first;
+    const second = new Date(wallTime - getZoneOffset(first, timeZone));
+    if (fits(second)) return second;
+    // In the gap the later instant is the one read with the offset from before the change
+    return first > second ? first : second;
+}
+
+// Values from the row data may be Dates, timestamps or ISO strings
+export function toDate(value: unknown): Date | null {
+    if (value === null || value === undefined || value === '') return null;
+    const date = value instanceof Date ? value : new Date(value as string | number);
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+export function addDays(parts: DateParts, days: number): DateParts {
+    const date = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + days));
+    return { ...parts, year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+// Same day in another month, or its last day if the month is shorter
+export function addMonths(parts: DateParts, months: number): DateParts {
+    const date = new Date(Date.UTC(parts.year, parts.month - 1 + months, 1));
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    return { ...parts, year, month, day: Math.min(parts.day, daysInMonth(year, month)) };
+}
+
+// Comparable number for the day of some parts
+export function getDayKey(parts: DateParts): number {
+    return parts.year * 10000 + parts.month * 100 + parts.day;
+}
+
+// Day of the week, 0 = Sunday
+export function getWeekday(parts: DateParts): number {
+    return new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay();
+}
+
+// First day of the week in a locale, 0 = Sunday
+export function getFirstDayOfWeek(locale?: string): number {
+    try {
+        const info = new Intl.Locale(locale ?? navigator.language) as Intl.Locale & {
+            getWeekInfo?: () => { firstDay: number };
+            weekInfo?: { firstDay: number };
+        };
+        return (info.getWeekInfo?.().firstDay ?? info.weekInfo?.firstDay ?? 7) % 7;
+    } catch {
+        return 0;
+    }
+}
+
+// Numeric date pattern of a locale, e.g. MM/dd/yyyy for en-US or dd.MM.yyyy for de-DE
+export function getLocalePattern(locale?: string): string {
+    const sample = new Date(Date.UTC(2001, 10, 22));
+    return new Intl.DateTimeFormat(locale, { year: 'numeric', month: '2-digit', day: '2-digit', timeZone: 'UTC' })
+        .formatToParts(sample)
+        .map(part => {
+            switch (part.type) {
+                case 'year': return 'yyyy';
+                case 'month': return 'MM';
+                case 'day': return 'dd';
+                default: return part.value;
+            }
+        })
+        .join('');
+}
+
+// Format parts with a pattern of yyyy, yy, MM, M, dd, d, HH, H and mm
+export function formatDateParts(parts: DateParts, pattern: string): string {
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    return pattern.split(TOKENS).map((piece, index) => {
+        if (index % 2 === 0) return piece;
+        switch (piece) {
+            case 'yyyy': return pad(parts.year, 4);
+            case 'yy': return pad(parts.year % 100);
+            case 'MM': return pad(parts.month);
+            case 'M': return String(parts.month);
+            case 'dd': return pad(parts.day);
+            case 'd': return String(parts.day);
+            case 'HH': return pad(parts.hour);
+            case 'H': return String(parts.hour);
+            default: return pad(parts.minute);
+        }
+    }).join('');
+}
+
+function isValid(parts: DateParts): boolean {
+    return parts.month >= 1 && parts.month <= 12 &&
+        parts.day >= 1 && parts.day <= daysInMonth(parts.year, parts.month) &&
+        parts.hour >= 0 && parts.hour <= 23 &&
+        parts.minute >= 0 && parts.minute <= 59;
+}
+
+// Match typed text against a pattern. Separators are loose: "22/11/2001"
+// matches dd.MM.yyyy. With withTime a time may follow a date-only pattern.
+function parseWithPattern(text: string, pattern: string, withTime: boolean): DateParts | null {
+    const fields: string[] = [];
+    let source = '';
+    pattern.split(TOKENS).forEach((piece, index) => {
+        if (index % 2 === 1) {
+            fields.push(piece);
+            source += piece === 'yyyy' ? '(\\d{4})' : piece === 'mm' || piece === 'yy' ? '(\\d{2})' : '(\\d{1,2})';
+        } else if (/^[\s\p{P}]+$/u.test(piece)) {
+            source += '[\\s\\p{P}]+';
+        } else {
+            source += piece.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        }
+    });
+    if (withTime && !fields.includes('HH') && !fields.includes('H')) {
+        fields.push('H', 'mm');
+        source += '(?:[\\sT,]+(\\d{1,2})[:.](\\d{2}))?';
+    }
+
+    const match = new RegExp(`^${source}$`, 'u').exec(text.trim());
+    if (!match) return null;
+
+    const parts: DateParts = { year: 0, month: 0, day: 0, hour: 0, minute: 0 };
+    fields.forEach((field, index) => {
+        const value = match[index + 1];
+        if (value === undefined) return; // optional time left out
+        const number = Number(value);
+        if (field === 'yyyy') parts.year = number;
+        else if (field === 'yy') parts.year = 2000 + number;
+        else if (field === 'MM' || field === 'M') parts.month = number;
+        else if (field === 'dd' || field === 'd') parts.day = number;
+        else if (field === 'HH' || field === 'H') parts.hour = number;
+        else parts.minute = number;
+    });
+    return isValid(parts) ? parts : null;
+}
+
+// Parse typed text with the given patterns, then ISO (yyyy-MM-dd) and the
+// locale's own numeric order. Returns null if nothing matches.
+export function parseDateInput(text: string, patterns: string[], locale: string | undefined, withTime: boolean): DateParts | null {
+    const candidates = [...patterns, 'yyyy-MM-dd', getLocalePattern(locale)];
+    for (const pattern of candidates) {
+        const parts = parseWithPattern(text, pattern, withTime);
+        if (parts) return parts;
+    }
+    return null;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { parseLocaleNumber, toNumber } from './numberValue';
+
+describe('parseLocaleNumber', () => {
+    it('reads group and decimal separators of the locale', () => {
+        expect(parseLocaleNumber('1,234.5', 'en-US')).toBe(1234.5);
+        expect(parseLocaleNumber('1.234,5', 'de-DE')).toBe(1234.5);
+        expect(parseLocaleNumber('1 234,5', 'fr-FR')).toBe(1234.5);
+    });
+
+    it('ignores currency and percent signs', () => {
+        expect(parseLocaleNumber('$1,000', 'en-US')).toBe(1000);
+        expect(parseLocaleNumber('25%', 'en-US')).toBe(25);
+        expect(parseLocaleNumber('−3', 'en-US')).toBe(-3);
+    });
+
+    it('returns null for empty input and NaN for text', () => {
+        expect(parseLocaleNumber('  ', 'en-US')).toBeNull();
+        expect(parseLocaleNumber('abc', 'en-US')).toBeNaN();
+        expect(parseLocaleNumber('1.2.3', 'en-US')).toBeNaN();
+    });
+});
+
+describe('toNumber', () => {
+    it('keeps numbers and parses strings', () => {
+        expect(toNumber(42)).toBe(42);
+        expect(toNumber('1,234', 'en-US')).toBe(1234);
+        expect(toNumber(null)).toBeNull();
+        expect(toNumber(undefined)).toBeNull();
+        expect(toNumber(NaN)).toBeNull();
+        expect(toNumber('x', 'en-US')).toBeNaN();
+    });
+});
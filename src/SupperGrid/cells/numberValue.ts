@@ -0,0 +1,34 @@
+// Parsing for NumberCell. Typed text and pasted values follow the column's
+// locale, so "1.234,5" is a number in de-DE and "1,234.5" one in en-US.
+
+// Group and decimal separators of a locale, read from a formatted sample
+function getSeparators(locale?: string): { group: string; decimal: string } {
+    const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+    return {
+        group: parts.find(part => part.type === 'group')?.value ?? ',',
+        decimal: parts.find(part => part.type === 'decimal')?.value ?? '.'
+    };
+}
+
+// Parse a number typed in the given locale. Spaces, group separators, currency
+// and percent signs are ignored. Empty input is null, anything else that is
+// not a number is NaN.
+export function parseLocaleNumber(text: string, locale?: string): number | null {
+    const { group, decimal } = getSeparators(locale);
+    const normalized = text
+        .replace(/\s/g, '')
+        .replace(/[\p{Sc}%]/gu, '')
+        .split(group).join('')
+        .split(decimal).join('.')
+        .replace(/\u2212/g, '-'); // Unicode minus sign
+
+    if (normalized === '') return null;
+    return /^[-+]?(\d+\.?\d*|\.\d+)$/.test(normalized) ? Number(normalized) : NaN;
+}
+
+// Values from the row data or a paste may still be strings
+export function toNumber(value: unknown, locale?: string): number | null {
+    if (value === null || value === undefined) return null;
+    if (typeof value === 'number') return Number.isNaN(value) ? null : value;
+    return parseLocaleNumber(String(value), locale);
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { SelectOption } from './selectOptions';
+import { filterOptions, findOption, loadOptions, matchOption, resolveOption } from './selectOptions';
+
+const options: SelectOption[] = [
+    { value: 'low', label: 'Low' },
+    { value: 'high', label: 'High' },
+    { value: 3, label: 'Higher than high' },
+    { value: 'below', label: 'Way below' }
+];
+
+describe('filterOptions', () => {
+    it('lists labels starting with the query first', () => {
+        expect(filterOptions(options, 'hi').map(option => option.value)).toEqual(['high', 3]);
+        expect(filterOptions(options, 'LOW').map(option => option.value)).toEqual(['low', 'below']);
+        expect(filterOptions(options, ' ')).toBe(options);
+    });
+});
+
+describe('matchOption', () => {
+    it('answers for static lists and options a loader already returned', async () => {
+        expect(matchOption(options, 'High')).toBe(options[1]);
+        expect(matchOption(options, 'medium')).toBeNull();
+
+        const loader = async (query: string) => filterOptions(options, query);
+        expect(matchOption(loader, 'low')).toBeUndefined();
+        await loadOptions(loader, 'low');
+        expect(matchOption(loader, 'Low')).toEqual(options[0]);
+    });
+});
+
+describe('resolveOption', () => {
+    it('matches values and labels of a static list', async () => {
+        expect(await resolveOption(options, 'high')).toBe(options[1]);
+        expect(await resolveOption(options, 'HIGH ')).toBe(options[1]);
+        expect(await resolveOption(options, 3)).toBe(options[2]);
+        expect(await resolveOption(options, 'medium')).toBeNull();
+    });
+
+    it('asks a loader and remembers what it returned', async () => {
+        const loader = vi.fn(async (query: string) => filterOptions(options, query));
+        expect(findOption(loader, 'high')).toBeUndefined();
+
+        expect(await resolveOption(loader, 'High')).toEqual(options[1]);
+        expect(loader).toHaveBeenCalledWith('High');
+        expect(findOption(loader, 'high')).toEqual(options[1]);
+
+        // Known values need no second request
+        await resolveOption(loader, 'high');
+        expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it('passes loader failures on', async () => {
+        const loader = async () => { throw new Error('offline'); };
+        await expect(loadOptions(loader, 'x')).rejects.toThrow('offline');
+    });
+});
@@ -0,0 +1,77 @@
+// Option lists for SelectCell / MultiSelectCell: static arrays or async
+// loaders that look options up by the typed text.
+
+export type SelectValue = string | number;
+
+export type SelectOption = {
+    value: SelectValue;
+    label: string;
+    color?: string; // Any CSS color, used as the tag background
+};
+
+// Options matching the typed text. An empty query asks for the first page.
+export type OptionLoader = (query: string) => Promise<SelectOption[]>;
+
+export type OptionSource = SelectOption[] | OptionLoader;
+
+// Every option a loader returned so far, shared by the cells of its column so
+// they can show labels without asking again
+const loadedOptions = new WeakMap<OptionLoader, Map<string, SelectOption>>();
+
+const getLoaded = (loader: OptionLoader) => {
+    let options = loadedOptions.get(loader);
+    if (!options) {
+        options = new Map();
+        loadedOptions.set(loader, options);
+    }
+    return options;
+};
+
+// Options whose label contains the query, the ones starting with it first
+export function filterOptions(options: SelectOption[], query: string): SelectOption[] {
+    const text = query.trim().toLowerCase();
+    if (!text) return options;
+    const matching = options.filter(option => option.label.toLowerCase().includes(text));
+    return [
+        ...matching.filter(option => option.label.toLowerCase().startsWith(text)),
+        ...matching.filter(option => !option.label.toLowerCase().startsWith(text))
+    ];
+}
+
+export async function loadOptions(source: OptionSource, query: string): Promise<SelectOption[]> {
+    if (Array.isArray(source)) return filterOptions(source, query);
+
+    const options = await source(query);
+    const loaded = getLoaded(source);
+    options.forEach(option => loaded.set(String(option.value), option));
+    return options;
+}
+
+// Option of a value without loading anything, undefined if it is not known yet
+export function findOption(source: OptionSource, value: unknown): SelectOption | undefined {
+    if (Array.isArray(source)) return source.find(option => String(option.value) === String(value));
+    return getLoaded(source).get(String(value));
+}
+
+// Option matching the text by value, or by label (case-insensitive) since
+// pastes carry what the cell showed
+const matchText = (options: SelectOption[], text: string): SelectOption | null =>
+    options.find(option => String(option.value) === text) ??
+    options.find(option => option.label.toLowerCase() === text.toLowerCase()) ??
+    null;
+
+// Option for a value written to a cell, without loading anything. null if
+// the list has no such option, undefined if a loader has to be asked.
+export function matchOption(source: OptionSource, input: unknown): SelectOption | null | undefined {
+    const text = String(input).trim();
+    if (Array.isArray(source)) return matchText(source, text);
+    return matchText([...getLoaded(source).values()], text) ?? undefined;
+}
+
+// Option for a value written to a cell. Loaders are asked with the text when
+// it matches no option they returned so far. null if there is no such option.
+export async function resolveOption(source: OptionSource, input: unknown): Promise<SelectOption | null> {
+    const known = matchOption(source, input);
+    if (known !== undefined) return known;
+    return matchText(await loadOptions(source, String(input).trim()), String(input).trim());
+}
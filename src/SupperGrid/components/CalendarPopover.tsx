@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import type { DateParts } from '../cells/dateUtils';
+import { addDays, addMonths, getDateParts, getDayKey, getFirstDayOfWeek, getWeekday } from '../cells/dateUtils';
+import { cn } from '../core/utils';
+
+interface CalendarPopoverProps {
+    value: DateParts | null; // Selected day, the calendar follows it as it changes
+    min?: DateParts | null; // Days outside min/max cannot be picked
+    max?: DateParts | null;
+    locale?: string;
+    timeZone?: string; // Zone of "today"
+    gridRef?: React.Ref<HTMLDivElement>; // Lets the editor move the keyboard focus into the days
+    children?: React.ReactNode; // Shown below the days, e.g. a time input
+    onPick: (day: DateParts) => void;
+    onCancel: () => void;
+}
+
+// Date of a day for Intl formatting, which runs in UTC to keep the day as is
+const toUTCDate = (day: DateParts) => new Date(Date.UTC(day.year, day.month - 1, day.day));
+
+// Month grid below a date cell editor. The days take the keyboard focus:
+// arrows move by day and week, PageUp/PageDown by month (with Shift by year),
+// Home/End to the week's edges, Enter or Space picks and Escape cancels.
+export function CalendarPopover({ value, min, max, locale, timeZone, gridRef, children, onPick, onCancel }: CalendarPopoverProps) {
+    const [active, setActive] = useState(() => value ?? getDateParts(new Date(), timeZone));
+    // Follow the editor's value, e.g. a date being typed
+    const valueKey = value ? getDayKey(value) : null;
+    const [shownValueKey, setShownValueKey] = useState(valueKey);
+    if (valueKey !== shownValueKey) {
+        setShownValueKey(valueKey);
+        if (value) setActive(value);
+    }
+
+    const firstDayOfWeek = getFirstDayOfWeek(locale);
+    const weekOffset = (day: DateParts) => (getWeekday(day) - firstDayOfWeek + 7) % 7;
+    const firstOfMonth = { ...active, day: 1 };
+    const start = addDays(firstOfMonth, -weekOffset(firstOfMonth));
+    const days = Array.from({ length: 42 }, (_, index) => addDays(start, index));
+
+    const todayKey = getDayKey(getDateParts(new Date(), timeZone));
+    const isDisabled = (day: DateParts) =>
+        (!!min && getDayKey(day) < getDayKey(min)) || (!!max && getDayKey(day) > getDayKey(max));
+
+    const weekdayFormat = new Intl.DateTimeFormat(locale, { weekday: 'narrow', timeZone: 'UTC' });
+    const titleFormat = new Intl.DateTimeFormat(locale, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+    const dayFormat = new Intl.DateTimeFormat(locale, { dateStyle: 'full', timeZone: 'UTC' });
+
+    const pick = (day: DateParts) => {
+        if (!isDisabled(day)) onPick(day);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        const moves: Record<string, (day: DateParts) => DateParts> = {
+            ArrowLeft: day => addDays(day, -1),
+            ArrowRight: day => addDays(day, 1),
+            ArrowUp: day => addDays(day, -7),
+            ArrowDown: day => addDays(day, 7),
+            PageUp: day => addMonths(day, e.shiftKey ? -12 : -1),
+            PageDown: day => addMonths(day, e.shiftKey ? 12 : 1),
+            Home: day => addDays(day, -weekOffset(day)),
+            End: day => addDays(day, 6 - weekOffset(day))
+        };
+
+        if (moves[e.key]) {
+            e.preventDefault();
+            setActive(moves[e.key](active));
+        } else if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            pick(active);
+        } else if (e.key === 'Escape') {
+            onCancel();
+        }
+    };
+
+    return (
+        // Clicks and keys stay inside the calendar - the cell would be clicked
+        // and the grid's document listeners would navigate. Keys typed into
+        // inputs below the days go on to the grid (Enter commits the edit).
+        <div
+            className="absolute left-0 top-full z-20 mt-1 w-64 rounded border border-neutral-200 bg-white p-2 shadow-md text-sm font-normal text-left"
+            onClick={(e) => e.stopPropagation()}
+            onMouseDown={(e) => {
+                e.stopPropagation();
+                // Keep the focus in the editor, a blur would end the edit.
+                // Inputs below the days still take the focus.
+                if (!(e.target instanceof HTMLInputElement)) e.preventDefault();
+            }}
+            onDoubleClick={(e) => e.stopPropagation()}
+            onKeyDown={(e) => {
+                if (!(e.target instanceof HTMLInputElement)) e.stopPropagation();
+            }}
+        >
+            <div className="flex items-center justify-between mb-1">
+                <button
+                    type="button"
+                    tabIndex={-1}
+                    title="Previous month"
+                    className="px-2 rounded hover:bg-stone-100"
+                    onClick={() => setActive(addMonths(active, -1))}
+                >
+                    ‹
+                </button>
+                <span className="font-medium">{titleFormat.format(toUTCDate(active))}</span>
+                <button
+                    type="button"
+                    tabIndex={-1}
+                    title="Next month"
+                    className="px-2 rounded hover:bg-stone-100"
+                    onClick={() => setActive(addMonths(active, 1))}
+                >
+                    ›
+                </button>
+            </div>
+
+            <div
+                ref={gridRef}
+                role="grid"
+                tabIndex={0}
+                aria-label={titleFormat.format(toUTCDate(active))}
+                className="grid grid-cols-7 gap-0.5 text-center outline-none focus:ring-1 focus:ring-neutral-400 rounded"
+                onKeyDown={handleKeyDown}
+            >
+                {days.slice(0, 7).map(day => (
+                    <span key={`weekday-${getWeekday(day)}`} className="text-xs text-neutral-400 py-1">
+                        {weekdayFormat.format(toUTCDate(day))}
+                    </span>
+                ))}
+                {days.map(day => {
+                    const key = getDayKey(day);
+                    const disabled = isDisabled(day);
+                    return (
+                        <button
+                            key={key}
+                            type="button"
+                            tabIndex={-1}
+                            role="gridcell"
+                            disabled={disabled}
+                            aria-selected={value !== null && key === getDayKey(value)}
+                            aria-label={dayFormat.format(toUTCDate(day))}
+                            className={cn(
+                                'rounded py-1',
+                                day.month !== active.month && 'text-neutral-400',
+                                key === todayKey && 'font-semibold',
+                                value !== null && key === getDayKey(value)
+                                    ? 'bg-blue-500 text-white'
+                                    : !disabled && 'hover:bg-stone-100',
+                                key === getDayKey(active) && 'ring-1 ring-neutral-800',
+                                disabled && 'opacity-40 cursor-not-allowed'
+                            )}
+                            onClick={() => pick(day)}
+                        >
+                            {day.day}
+                        </button>
+                    );
+                })}
+            </div>
+
+            {children}
+        </div>
+    );
+}
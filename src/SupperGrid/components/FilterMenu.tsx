@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import type { ColumnFilter, FilterType } from '../plugins/FilterPlugin';
+import { cn } from '../core/utils';
+
+interface FilterMenuProps {
+    type: FilterType;
+    filter: ColumnFilter | undefined;
+    getValues: () => string[]; // Distinct values for the checklist, read when the menu opens
+    onApply: (filter: ColumnFilter | null) => void;
+}
+
+// Draft of the form, turned into a filter on apply
+type Draft = {
+    operator: 'contains' | 'equals';
+    text: string;
+    min: string;
+    max: string;
+    values: string[];
+    checked: Set<string>;
+};
+
+function createDraft(type: FilterType, filter: ColumnFilter | undefined, values: string[]): Draft {
+    return {
+        operator: filter?.type === 'text' ? filter.operator : 'contains',
+        text: filter?.type === 'text' ? filter.value : '',
+        min: filter?.type === 'number' && filter.min !== undefined ? String(filter.min) : '',
+        max: filter?.type === 'number' && filter.max !== undefined ? String(filter.max) : '',
+        values: type === 'values' ? values : [],
+        checked: new Set(filter?.type === 'values' ? filter.values : values)
+    };
+}
+
+function toFilter(type: FilterType, draft: Draft): ColumnFilter | null {
+    switch (type) {
+        case 'text':
+            return draft.text ? { type: 'text', operator: draft.operator, value: draft.text } : null;
+        case 'number': {
+            const min = draft.min.trim() === '' ? undefined : Number(draft.min);
+            const max = draft.max.trim() === '' ? undefined : Number(draft.max);
+            const range = {
+                min: min !== undefined && !Number.isNaN(min) ? min : undefined,
+                max: max !== undefined && !Number.isNaN(max) ? max : undefined
+            };
+            return range.min === undefined && range.max === undefined ? null : { type: 'number', ...range };
+        }
+        case 'values':
+            // Everything checked filters nothing
+            return draft.checked.size === draft.values.length ? null : { type: 'values', values: [...draft.checked] };
+    }
+}
+
+const inputClassName = 'w-full rounded border border-neutral-300 px-2 py-1 outline-none focus:border-neutral-500';
+
+// Filter button and popover of a column header
+export function FilterMenu({ type, filter, getValues, onApply }: FilterMenuProps) {
+    const [draft, setDraft] = useState<Draft | null>(null); // null = closed
+
+    const open = () => setDraft(createDraft(type, filter, getValues()));
+    const close = () => setDraft(null);
+    const apply = (next: ColumnFilter | null) => {
+        onApply(next);
+        close();
+    };
+
+    const toggleValue = (value: string) => {
+        setDraft(current => {
+            if (!current) return current;
+            const checked = new Set(current.checked);
+            if (checked.has(value)) {
+                checked.delete(value);
+            } else {
+                checked.add(value);
+            }
+            return { ...current, checked };
+        });
+    };
+
+    return (
+        // Clicks and keys stay inside the menu - the header would sort and the
+        // grid's document listeners would navigate
+        <div
+            className="relative"
+            onClick={(e) => e.stopPropagation()}
+            onMouseDown={(e) => e.stopPropagation()}
+            onKeyDown={(e) => {
+                e.stopPropagation();
+                if (e.key === 'Escape') close();
+                if (e.key === 'Enter' && draft) apply(toFilter(type, draft));
+            }}
+        >
+            <button
+                type="button"
+                title="Filter"
+                className={cn('px-1 rounded hover:bg-stone-200', filter ? 'text-blue-600' : 'text-neutral-400')}
+                onClick={() => (draft ? close() : open())}
+            >
+                <svg viewBox="0 0 16 16" className="w-3 h-3 fill-current">
+                    <path d="M1 2h14l-5.5 6.5V14l-3-1.5v-4z" />
+                </svg>
+            </button>
+
+            {draft && (
+                <div className="absolute left-0 top-full z-20 mt-1 w-56 rounded border border-neutral-200 bg-white p-2 shadow-md text-sm font-normal flex flex-col gap-2">
+                    {type === 'text' && (
+                        <>
+                            <select
+                                className={inputClassName}
+                                value={draft.operator}
+                                onChange={(e) => setDraft({ ...draft, operator: e.target.value as Draft['operator'] })}
+                            >
+                                <option value="contains">Contains</option>
+                                <option value="equals">Equals</option>
+                            </select>
+                            <input
+                                autoFocus
+                                className={inputClassName}
+                                placeholder="Value"
+                                value={draft.text}
+                                onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+                            />
+                        </>
+                    )}
+
+                    {type === 'number' && (
+                        <div className="flex gap-2">
+                            <input
+                                autoFocus
+                                type="number"
+                                className={inputClassName}
+                                placeholder="Min"
+                                value={draft.min}
+                                onChange={(e) => setDraft({ ...draft, min: e.target.value })}
+                            />
+                            <input
+                                type="number"
+                                className={inputClassName}
+                                placeholder="Max"
+                                value={draft.max}
+                                onChange={(e) => setDraft({ ...draft, max: e.target.value })}
+                            />
+                        </div>
+                    )}
+
+                    {type === 'values' && (
+                        <div className="max-h-48 overflow-auto flex flex-col">
+                            <label className="flex items-center gap-2 py-0.5 border-b border-neutral-100">
+                                <input
+                                    type="checkbox"
+                                    checked={draft.checked.size === draft.values.length}
+                                    onChange={(e) => setDraft({ ...draft, checked: new Set(e.target.checked ? draft.values : []) })}
+                                />
+                                Select all
+                            </label>
+                            {draft.values.map(value => (
+                                <label key={value} className="flex items-center gap-2 py-0.5">
+                                    <input
+                                        type="checkbox"
+                                        checked={draft.checked.has(value)}
+                                        onChange={() => toggleValue(value)}
+                                    />
+                                    <span className={cn('truncate', value === '' && 'italic text-neutral-400')}>
+                                        {value === '' ? '(empty)' : value}
+                                    </span>
+                                </label>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="flex justify-end gap-2">
+                        <button type="button" className="px-2 py-1 rounded hover:bg-stone-100" onClick={() => apply(null)}>
+                            Clear
+                        </button>
+                        <button
+                            type="button"
+                            className="px-2 py-1 rounded bg-neutral-800 text-white hover:bg-neutral-700"
+                            onClick={() => apply(toFilter(type, draft))}
+                        >
+                            Apply
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
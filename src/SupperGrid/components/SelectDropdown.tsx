@@ -0,0 +1,177 @@
+import { useState, useEffect, useRef, useId } from 'react';
+import type { OptionSource, SelectOption, SelectValue } from '../cells/selectOptions';
+import { loadOptions } from '../cells/selectOptions';
+import { cn, placeCaretAtEnd } from '../core/utils';
+
+// Wait for a pause in typing before asking an async loader
+const LOADER_DELAY = 200;
+
+interface SelectDropdownProps {
+    source: OptionSource;
+    selected: SelectValue[]; // Options shown as checked
+    multiple?: boolean; // Picking toggles options and keeps the list open
+    placeholder?: string;
+    initialQuery?: string; // e.g. the key that started the edit
+    children?: React.ReactNode; // Before the input, e.g. the picked tags
+    onPick: (option: SelectOption) => void;
+    onRemoveLast: () => void; // Backspace in an empty input
+}
+
+// Colored label of an option, with a remove button when onRemove is given
+export function OptionTag({ option, onRemove }: { option: SelectOption; onRemove?: () => void }) {
+    return (
+        <span
+            className="inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-xs leading-4 bg-neutral-200 text-neutral-800 max-w-full"
+            style={option.color ? { backgroundColor: option.color } : undefined}
+        >
+            <span className="truncate">{option.label}</span>
+            {onRemove && (
+                <button
+                    type="button"
+                    tabIndex={-1}
+                    title={`Remove ${option.label}`}
+                    className="text-neutral-500 hover:text-neutral-900"
+                    // Keep the focus in the input
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onRemove();
+                    }}
+                >
+                    ×
+                </button>
+            )}
+        </span>
+    );
+}
+
+// Type-ahead input with an option list below it. Typing filters the list
+// (or asks the loader), Arrow Up/Down move through it, Enter picks and
+// Backspace in an empty input removes the last pick. In a multi select Enter
+// only toggles the option; Ctrl/Cmd+Enter, Escape and Tab go on to the grid,
+// which commits or cancels the edit.
+export function SelectDropdown({ source, selected, multiple = false, placeholder, initialQuery = '', children, onPick, onRemoveLast }: SelectDropdownProps) {
+    const [query, setQuery] = useState(initialQuery);
+    const [results, setResults] = useState<SelectOption[]>(() => (Array.isArray(source) ? source : []));
+    const [activeIndex, setActiveIndex] = useState(0);
+    const [loading, setLoading] = useState(!Array.isArray(source));
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const listRef = useRef<HTMLUListElement>(null);
+    const listId = useId();
+
+    // Filter or load whenever the query changes. Answers to older queries are dropped.
+    useEffect(() => {
+        let cancelled = false;
+        const isLoader = !Array.isArray(source);
+        if (isLoader) setLoading(true);
+
+        const timer = setTimeout(() => {
+            loadOptions(source, query)
+                .then(options => {
+                    if (cancelled) return;
+                    setResults(options);
+                    setActiveIndex(0);
+                    setLoadError(null);
+                })
+                .catch(error => {
+                    if (cancelled) return;
+                    console.error('SelectDropdown: Could not load options:', error);
+                    setResults([]);
+                    setLoadError('Could not load options');
+                })
+                .finally(() => {
+                    if (!cancelled) setLoading(false);
+                });
+        }, isLoader ? LOADER_DELAY : 0);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [source, query]);
+
+    // Keep the active option in view while moving with the keyboard
+    useEffect(() => {
+        listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' });
+    }, [activeIndex, results]);
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            if (results.length === 0) return;
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            setActiveIndex((activeIndex + step + results.length) % results.length);
+        } else if (e.key === 'Enter' && !e.ctrlKey && !e.metaKey && results.length > 0) {
+            e.preventDefault();
+            onPick(results[activeIndex]);
+            setQuery('');
+            // A multi select stays open for more picks
+            if (multiple) e.stopPropagation();
+        } else if (e.key === 'Backspace' && query === '') {
+            onRemoveLast();
+        }
+    };
+
+    const isSelected = (option: SelectOption) => selected.some(value => String(value) === String(option.value));
+
+    return (
+        <div className="relative">
+            <div className="flex flex-wrap items-center gap-1">
+                {children}
+                <input
+                    type="text"
+                    role="combobox"
+                    aria-expanded
+                    aria-controls={listId}
+                    aria-activedescendant={results[activeIndex] ? `${listId}-${activeIndex}` : undefined}
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    onFocus={(e) => placeCaretAtEnd(e.currentTarget)}
+                    onKeyDown={handleKeyDown}
+                    placeholder={placeholder}
+                    autoFocus
+                    className="select-cell-input flex-1 min-w-12 outline-none bg-transparent"
+                />
+            </div>
+
+            <div
+                className="absolute left-0 top-full z-20 mt-1 min-w-full w-56 max-h-60 overflow-auto rounded border border-neutral-200 bg-white p-1 shadow-md text-sm font-normal text-left"
+                onClick={(e) => e.stopPropagation()}
+                onMouseDown={(e) => {
+                    e.stopPropagation();
+                    // Keep the focus in the input, a blur would end the edit
+                    e.preventDefault();
+                }}
+                onDoubleClick={(e) => e.stopPropagation()}
+            >
+                <ul ref={listRef} id={listId} role="listbox" aria-multiselectable={multiple}>
+                    {results.map((option, index) => (
+                        <li
+                            key={String(option.value)}
+                            id={`${listId}-${index}`}
+                            role="option"
+                            aria-selected={isSelected(option)}
+                            className={cn(
+                                'flex items-center gap-2 rounded px-2 py-1 cursor-pointer',
+                                index === activeIndex && 'bg-stone-100'
+                            )}
+                            onMouseEnter={() => setActiveIndex(index)}
+                            onClick={() => {
+                                onPick(option);
+                                setQuery('');
+                            }}
+                        >
+                            {multiple && (
+                                <span className={cn('w-3 text-blue-600', !isSelected(option) && 'invisible')}>✓</span>
+                            )}
+                            <OptionTag option={option} />
+                        </li>
+                    ))}
+                </ul>
+                {loading && results.length === 0 && <div className="px-2 py-1 text-neutral-400">Loading…</div>}
+                {!loading && loadError && <div className="px-2 py-1 text-red-600">{loadError}</div>}
+                {!loading && !loadError && results.length === 0 && <div className="px-2 py-1 text-neutral-400">No matches</div>}
+            </div>
+        </div>
+    );
+}
@@ -1,148 +1,158 @@
-import { useEffect, useRef, useState } from 'react';
-import type { RowId, TableConfig, SpaceId, SpaceCommand } from '../core/types';
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { RowId, TableConfig, SpaceId, SpaceCommand, RowCommand } from '../core/types';
 import type { TableCore } from '../core/TableCore';
 import { useTableContext } from '../core/TableContext';
-import { v4 as uuidv4 } from 'uuid';
+import { compareFractionalIndex } from '../core/FractionalIndex';
+import type { ColumnWindow } from '../core/ColumnLayout';
+
+// Settings for rendering only the rows inside the scroll container's viewport
+export interface SpaceVirtualization {
+    scrollRef: React.RefObject<HTMLElement | null>;
+    rowHeight: number;
+    overscan: number; // Extra rows mounted above and below the viewport
+    stickyHeight: number; // Top of the viewport covered by the sticky header and spaces
+}
 
 interface SpaceProps<TData> {
     id: SpaceId;
     data?: TData[];
+    controlled?: boolean; // parent owns `data` - sync to every new array
+    getRowId?: (row: TData) => RowId;
     tableCore: TableCore;
     config: TableConfig<TData>;
     GridRow: React.ComponentType<any>; // Reference to the existing GridRow component
+    columnWindow?: ColumnWindow; // Mount only visible columns
+    pinnedOffsets?: Record<string, number>; // Sticky offsets of the pinned columns
+    virtualization?: SpaceVirtualization; // Mount only visible rows
+    sticky?: boolean; // Stay at the top of the scroll viewport, `stickyTop` pixels down
+    stickyTop?: number;
 }
 
-export function Space<TData>({ id, data = [], tableCore, config, GridRow }: SpaceProps<TData>) {
+export function Space<TData>({ id, data = [], controlled = false, getRowId, tableCore, config, columnWindow, pinnedOffsets, GridRow, virtualization, sticky = false, stickyTop = 0 }: SpaceProps<TData>) {
     const tableContext = useTableContext();
     const [spaceRows, setSpaceRows] = useState<{ rowId: RowId; data: TData; fractionalIndex: string }[]>([]);
     const [registryVersion, setRegistryVersion] = useState(0); // Force re-render when registry changes
 
-    console.log(`Space ${id}: Rendering with ${spaceRows.length} rows`);
-
-    // Initialize space with initial data (for table space)
+    // Latest getRowId without re-running reconciliation when only its identity changes
+    const getRowIdRef = useRef(getRowId);
     useEffect(() => {
-        // Check if this space already has rows in TableCore registry
-        const existingRowsInSpace = tableCore.getRowRegistry()
-            .list()
-            .map(rowId => tableCore.getRowRegistry().get(rowId)!)
-            .filter(row => row && row.spaceId === id);
-
-        if (data.length > 0 && existingRowsInSpace.length === 0) {
-            console.log(`Space ${id}: Initializing with ${data.length} initial rows (no existing rows found)`);
-
-            // Generate fractional indices for initial data
-            const fractionalIndices = tableCore.generateInitialFractionalIndices(data.length);
+        getRowIdRef.current = getRowId;
+    });
+    const isKeyed = getRowId !== undefined;
+
+    // Virtualization: rows [start, end) of spaceRows are mounted
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [visibleRange, setVisibleRange] = useState({ start: 0, end: 0 });
+    const scrollRef = virtualization?.scrollRef;
+    const rowHeight = virtualization?.rowHeight ?? 0;
+    const overscan = virtualization?.overscan ?? 0;
+    const rowCount = spaceRows.length;
+
+    // Position of every row, used to scroll unmounted rows into view
+    const rowIndexById = useMemo(
+        () => new Map(spaceRows.map((spaceRow, index) => [spaceRow.rowId, index])),
+        [spaceRows]
+    );
+
+    // Initialize space with initial data, then reconcile later data arrays
+    useEffect(() => {
+        const existingRowCount = tableCore.getRowIdsInSpaceSorted(id).length;
 
-            // Create and register rows for initial data
-            data.forEach((rowData, index) => {
-                // Check if a row with this exact data already exists in this space
-                const duplicateRow = existingRowsInSpace.find(row =>
-                    JSON.stringify(row.data) === JSON.stringify(rowData)
-                );
+        if (existingRowCount === 0 && data.length === 0) {
+            return; // Nothing to do (plugin spaces start empty)
+        }
 
-                if (duplicateRow) {
-                    console.warn(`Space ${id}: Skipping duplicate row data at index ${index}`);
-                    return;
-                }
+        if (existingRowCount === 0 || controlled || isKeyed) {
+            tableCore.reconcileSpaceData(id, data, getRowIdRef.current);
 
-                const rowId = uuidv4();
-                const fractionalIndex = fractionalIndices[index];
-
-                // Create and register the Row object in the row registry
-                const rowObject: import('../core/types').Row<TData> = {
-                    spaceId: id,
-                    data: rowData,
-                    cells: [], // Will be populated by the GridRow component
-                    top: null, // Will be set after all rows are created
-                    bottom: null, // Will be set after all rows are created
-                    fractionalIndex: fractionalIndex
-                };
-
-                // Register the row object
-                tableCore.getRowRegistry().register(rowId, rowObject);
-                console.log(`Space ${id}: Registered initial row ${rowId} with fractional index ${fractionalIndex}`);
-            });
-
-            // Force re-query after registration
+            // Force re-query after reconciliation
             setRegistryVersion(v => v + 1);
-        } else if (existingRowsInSpace.length > 0) {
-            console.log(`Space ${id}: Found ${existingRowsInSpace.length} existing rows, skipping initialization`);
-
-            // If we have data but also existing rows, check for mismatches
-            if (data.length !== existingRowsInSpace.length) {
-                console.warn(`Space ${id}: Data length (${data.length}) doesn't match existing rows (${existingRowsInSpace.length})`);
-            }
+        } else {
+            // Uncontrolled without getRowId: data only seeds the space
+            console.log(`Space ${id}: Found ${existingRowCount} existing rows, ignoring new data (no getRowId)`);
         }
-    }, [id, data, tableCore]);
+    }, [id, data, controlled, isKeyed, tableCore]);
 
     // Query TableCore for rows in this space
     useEffect(() => {
-        console.log(`Space ${id}: Querying TableCore for rows (registryVersion: ${registryVersion})`);
-
         const rowsInSpace = tableCore.getRowRegistry()
             .list()
             .map(rowId => ({
                 rowId,
                 row: tableCore.getRowRegistry().get(rowId)!
             }))
-            .filter(({ row }) => row && row.spaceId === id)
-            .sort((a, b) => b.row.fractionalIndex.localeCompare(a.row.fractionalIndex)) // Top to bottom
+            .filter(({ row }) => row && row.spaceId === id && !row.hidden)
+            .sort((a, b) => compareFractionalIndex(b.row.fractionalIndex, a.row.fractionalIndex)) // Top to bottom
             .map(({ rowId, row }) => ({
                 rowId,
                 data: row.data,
                 fractionalIndex: row.fractionalIndex
             }));
 
-        console.log(`Space ${id}: Found ${rowsInSpace.length} rows in registry`);
         setSpaceRows(rowsInSpace);
     }, [id, tableCore, registryVersion, data]);
 
-    // Link cells vertically after all cells are created (delayed execution)
+    // Re-query when a row of this space is destroyed, so it leaves the row list
+    // (and the virtualized layout) instead of only rendering nothing, and when
+    // a row moved inside, into or out of this space
     useEffect(() => {
-        if (spaceRows.length > 1) {
-            // Delay cell linking to ensure all GridRow components have registered their cells
-            const timer = setTimeout(() => {
-                console.log(`Space ${id}: Attempting to link cells vertically across ${spaceRows.length} rows`);
-
-                const rowRegistry = tableCore.getRowRegistry();
-                const coordinator = tableCore.getCellCoordinator();
-
-                // Use visual order from spaceRows (already sorted top to bottom)
-                for (let i = 0; i < spaceRows.length - 1; i++) {
-                    const currentRowId = spaceRows[i].rowId;
-                    const nextRowId = spaceRows[i + 1].rowId;
-
-                    const currentRow = rowRegistry.get(currentRowId);
-                    const nextRow = rowRegistry.get(nextRowId);
-
-                    console.log(`Space ${id}: Linking row ${i} (${currentRowId.slice(0, 8)}...) to row ${i + 1} (${nextRowId.slice(0, 8)}...)`);
-
-                    if (currentRow && nextRow) {
-                        console.log(`Space ${id}: Current row has ${currentRow.cells.length} cells, next row has ${nextRow.cells.length} cells`);
-
-                        if (currentRow.cells.length === nextRow.cells.length && currentRow.cells.length > 0) {
-                            // Link corresponding cells between visually adjacent rows
-                            coordinator.linkRowsCells(currentRow.cells, nextRow.cells);
-                            console.log(`Space ${id}: Linked ${currentRow.cells.length} cells between rows`);
-                        } else {
-                            console.warn(`Space ${id}: Cannot link rows ${i} and ${i + 1} - cell count mismatch or empty (${currentRow.cells.length} vs ${nextRow.cells.length})`);
-                        }
-                    }
+        return tableCore.subscribe(event => {
+            if (event.type !== 'row') return;
+            if (event.command.name === 'destroy') {
+                const row = (event.command as RowCommand<'destroy'>).payload.row;
+                if (row?.spaceId === id) {
+                    setRegistryVersion(v => v + 1);
                 }
-                console.log(`Space ${id}: Vertical cell linking completed`);
-            }, 100); // Small delay to allow GridRow components to register cells
+            } else if (event.command.name === 'linkToTop' || event.command.name === 'linkToBottom') {
+                const { spaceId, from } = (event.command as RowCommand<'linkToTop' | 'linkToBottom'>).payload;
+                if (spaceId === id || from.spaceId === id) {
+                    setRegistryVersion(v => v + 1);
+                }
+            }
+        });
+    }, [id, tableCore]);
 
-            return () => clearTimeout(timer);
-        }
-    }, [id, spaceRows, tableCore]); // Re-run when spaceRows change
+    // Work out which rows are inside the viewport of the scroll container
+    useLayoutEffect(() => {
+        const scroller = scrollRef?.current;
+        if (!scroller || rowHeight <= 0) return;
+
+        const updateRange = () => {
+            const container = containerRef.current;
+            if (!container) return;
+
+            const top = scroller.scrollTop - getSpaceOffset(scroller, container);
+            const start = Math.max(0, Math.floor(top / rowHeight) - overscan);
+            const end = Math.min(rowCount, Math.ceil((top + scroller.clientHeight) / rowHeight) + overscan);
+            setVisibleRange(prev => (prev.start === start && prev.end === end ? prev : { start, end }));
+        };
+
+        updateRange();
+        scroller.addEventListener('scroll', updateRange, { passive: true });
+        const resizeObserver = new ResizeObserver(updateRange);
+        resizeObserver.observe(scroller);
+
+        return () => {
+            scroller.removeEventListener('scroll', updateRange);
+            resizeObserver.disconnect();
+        };
+    }, [scrollRef, rowHeight, overscan, rowCount]);
 
     // Register space command handler
     useEffect(() => {
         const handleSpaceCommand = (command: SpaceCommand) => {
-            console.log(`Space ${id}: Received space command:`, command.name);
             switch (command.name) {
                 case 'createRow':
-                    handleCreateRow(command.payload);
+                    handleCreateRow((command as SpaceCommand<'createRow'>).payload);
+                    break;
+                case 'reorderRows':
+                    handleReorderRows((command as SpaceCommand<'reorderRows'>).payload);
+                    break;
+                case 'setHiddenRows':
+                    handleSetHiddenRows((command as SpaceCommand<'setHiddenRows'>).payload);
+                    break;
+                case 'scrollIntoView':
+                    handleScrollIntoView((command as SpaceCommand<'scrollIntoView'>).payload);
                     break;
                 default:
                     console.log(`Space ${id}: Unhandled space command:`, command.name);
@@ -158,11 +168,9 @@ export function Space<TData>({ id, data = [], tableCore, config, GridRow }: Spac
     }, [id, tableContext]);
 
     // Handle createRow command - now delegates to TableCore
-    const handleCreateRow = (payload: { data: any; position?: 'top' | 'bottom' | { after: RowId } }) => {
-        console.log(`Space ${id}: Creating new row with payload:`, payload);
-
+    const handleCreateRow = (payload: { data: any; position?: 'top' | 'bottom' | { after: RowId }; rowId?: RowId }) => {
         // Delegate to TableCore - it handles all the spatial logic
-        const newRowId = tableCore.createRowInSpace(id, payload.data, payload.position);
+        const newRowId = tableCore.createRowInSpace(id, payload.data, payload.position, payload.rowId);
 
         // Force re-query to pick up the new row
         setRegistryVersion(v => v + 1);
@@ -170,30 +178,101 @@ export function Space<TData>({ id, data = [], tableCore, config, GridRow }: Spac
         console.log(`Space ${id}: Successfully created row ${newRowId} via TableCore`);
     };
 
-    // Render rows using the existing GridRow component
-    const renderRows = () => {
-        console.log(`Space ${id}: renderRows called, spaceRows.length=${spaceRows.length}`);
+    // Handle reorderRows command - rows are re-sorted by their new fractional
+    // indices and keep their GridRow (keyed by row ID)
+    const handleReorderRows = (payload: { rowIds: RowId[] }) => {
+        tableCore.reorderSpace(id, payload.rowIds);
+        setRegistryVersion(v => v + 1);
+    };
+
+    // Handle setHiddenRows command - hidden rows leave the rendered list but
+    // stay in the registry
+    const handleSetHiddenRows = (payload: { rowIds: RowId[] }) => {
+        tableCore.setHiddenRows(id, payload.rowIds);
+        setRegistryVersion(v => v + 1);
+    };
+
+    // Handle scrollIntoView command - rows outside the viewport are not mounted,
+    // so their position is computed from the row height. The grid scrolls to the column.
+    const handleScrollIntoView = (payload: { rowId: RowId; columnKey?: string }) => {
+        const scroller = scrollRef?.current;
+        const container = containerRef.current;
+        const index = rowIndexById.get(payload.rowId);
+
+        if (!scroller || !container || rowHeight <= 0 || index === undefined) {
+            // Every row is mounted - let the browser scroll
+            document.querySelector(`[data-row-id="${CSS.escape(payload.rowId)}"]`)?.scrollIntoView({ block: 'nearest' });
+            return;
+        }
+
+        // Rows must clear the sticky header and spaces at the top of the viewport
+        const stickyHeight = virtualization?.stickyHeight ?? 0;
+        const rowTop = getSpaceOffset(scroller, container) + index * rowHeight;
+        const rowBottom = rowTop + rowHeight;
+        if (rowTop < scroller.scrollTop + stickyHeight) {
+            scroller.scrollTop = rowTop - stickyHeight;
+        } else if (rowBottom > scroller.scrollTop + scroller.clientHeight) {
+            scroller.scrollTop = rowBottom - scroller.clientHeight;
+        }
+    };
 
-        return spaceRows.map((spaceRow, index) => {
-            console.log(`Space ${id}: Processing row ${index}, rowId=${spaceRow.rowId.slice(0, 8)}..., rowData:`, spaceRow.data);
+    // Render rows using the existing GridRow component
+    const renderRows = (start: number, end: number) => {
+        return spaceRows.slice(start, end).map((spaceRow, offset) => {
+            const index = start + offset;
 
             const isLastRow = index === spaceRows.length - 1;
 
-            // Create row props for GridRow component
+            // Create row props for GridRow component. Data comes from the registry,
+            // which has the latest edits of rows that were unmounted.
             const rowProps = {
                 id: spaceRow.rowId,
-                data: spaceRow.data,
+                data: tableCore.getRowRegistry().get(spaceRow.rowId)?.data ?? spaceRow.data,
                 columns: config,
                 rowIndex: spaceRow.fractionalIndex, // Fractional index for spatial coordinates
-                isLastRow // Pass whether this is the last row
+                isLastRow, // Pass whether this is the last row
+                height: virtualization ? rowHeight : undefined,
+                columnWindow,
+                pinnedOffsets
             };
 
-            console.log(`Space ${id}: Rendering GridRow for row ${index}, props:`, rowProps);
-
             return <GridRow key={spaceRow.rowId} {...rowProps} />;
         });
     };
 
-    // Space component is invisible - no UI wrapper, just renders its rows
-    return <>{renderRows()}</>;
+    if (sticky) {
+        // Sticky spaces need a wrapper to stick, as wide as the rows so the rows
+        // scrolling underneath do not show through
+        return (
+            <div
+                data-space-id={id}
+                data-sticky-space
+                className="min-w-full w-max bg-white"
+                style={{ position: 'sticky', top: stickyTop, zIndex: 3 }}
+            >
+                {renderRows(0, spaceRows.length)}
+            </div>
+        );
+    }
+
+    if (!virtualization) {
+        // Space component is invisible - no UI wrapper, just renders its rows
+        return <>{renderRows(0, spaceRows.length)}</>;
+    }
+
+    // Full-height container keeps the scrollbar right, mounted rows are shifted into place
+    const start = Math.min(visibleRange.start, rowCount);
+    const end = Math.min(visibleRange.end, rowCount);
+    return (
+        <div ref={containerRef} style={{ height: rowCount * rowHeight, position: 'relative' }}>
+            <div style={{ transform: `translateY(${start * rowHeight}px)` }}>
+                {renderRows(start, end)}
+            </div>
+        </div>
+    );
+}
+
+// Top of the space inside the scroll container's content
+function getSpaceOffset(scroller: HTMLElement, container: HTMLElement): number {
+    return container.getBoundingClientRect().top - scroller.getBoundingClientRect().top + scroller.scrollTop;
 }
\ No newline at end of file
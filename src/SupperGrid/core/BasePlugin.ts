@@ -1,4 +1,4 @@
-import type { CellCommand, RowCommand, SpaceCommand, CellId, RowId, SpaceId, Cell, Space, SpaceCommandMap } from './types';
+import type { CellCommand, RowCommand, SpaceCommand, CellId, RowId, SpaceId, Cell, Space, SpaceCommandMap, CommandResult, CommandBatch, BatchResult, CellValueChange, ColumnConfig } from './types';
 
 // Spatial comparison result types
 export type VerticalComparison = {
@@ -17,12 +17,37 @@ export interface TablePluginAPIs {
         targetId: RowId, 
         command: Omit<RowCommand<K>, 'targetId' | 'originPlugin' | 'timestamp'>
     ): void;
+    createSpaceCommand<K extends keyof SpaceCommandMap>(
+        targetSpaceId: SpaceId,
+        command: Omit<SpaceCommand<K>, 'targetSpaceId' | 'originPlugin' | 'timestamp'>
+    ): void;
+    // Dispatch several cell commands as one batch
+    createCellCommands(commands: Array<{
+        targetId: CellId;
+        command: Omit<CellCommand, 'targetId' | 'originPlugin' | 'timestamp'>;
+    }>): void;
+    // Every command created inside fn is delivered as one batch
+    batch(fn: () => void): void;
     getCell(cellId: CellId): Cell | undefined;
     getRow(rowId: RowId): import('./types').Row<any> | undefined;
     compareVertical(cellId1: CellId, cellId2: CellId): VerticalComparison;
     compareHorizontal(cellId1: CellId, cellId2: CellId): HorizontalComparison;
+    setRowValue(rowId: RowId, columnKey: string, value: unknown): void;
+    // Scroll the space holding the cell so the cell is visible (and mounted)
+    scrollCellIntoView(cellId: CellId): void;
     deleteRow(rowId: RowId): void;
+    // Move a row next to another one or to an edge of a space (maybe another space)
+    moveRow(rowId: RowId, position: import('./types').RowMovePosition): boolean;
     getRowIds(): RowId[];
+    // Rows of a space, top to bottom
+    getRowIdsInSpace(spaceId: SpaceId): RowId[];
+    getColumns(): string[];
+    getColumnConfig(columnKey: string): ColumnConfig | undefined;
+    // Re-render column headers (after state shown by renderHeader changed)
+    refreshHeader(): void;
+    // Folded columns are drawn as a strip and skipped by the left/right links
+    setColumnFolded(columnKey: string, folded: boolean): void;
+    isColumnFolded(columnKey: string): boolean;
     getSpaceAbove(spaceId: SpaceId): SpaceId | null;
     getSpaceBelow(spaceId: SpaceId): SpaceId | null;
     getSpace(spaceId: SpaceId): Space | undefined;
@@ -51,6 +76,9 @@ export abstract class BasePlugin {
     abstract readonly version: string;
     readonly dependencies: string[] = [];
     readonly processLast: boolean = false;
+    // Keep the plugin's space below the header while the table space scrolls
+    // under it (e.g. pinned rows)
+    readonly stickySpace: boolean = false;
 
     protected pluginManager: PluginManager | null = null;
     protected tableAPIs: TablePluginAPIs | null = null;
@@ -70,6 +98,42 @@ export abstract class BasePlugin {
         command: SpaceCommand<K>
     ): boolean | void;
 
+    // Command observation - called once a command was delivered or blocked.
+    // Like onBefore hooks, they are skipped for the plugin that created the command.
+    onAfterCellCommand?(command: CellCommand, result: CommandResult): void;
+    onAfterRowCommand?<K extends keyof import('./types').RowCommandMap>(
+        command: RowCommand<K>,
+        result: CommandResult
+    ): void;
+    onAfterSpaceCommand?<K extends keyof SpaceCommandMap>(
+        command: SpaceCommand<K>,
+        result: CommandResult
+    ): void;
+
+    // Batch observation - a batch is delivered as a unit. Returning false from
+    // onBeforeBatch blocks every command in it. Each command still runs through
+    // the onBefore/onAfter command hooks as usual. onAfterBatch follows every
+    // batch, blocked ones included.
+    onBeforeBatch?(batch: CommandBatch): boolean | void;
+    onAfterBatch?(batch: CommandBatch, result: BatchResult): void;
+
+    // A value was written into row data. Cells write only values they accept,
+    // so this is what actually changed, unlike the updateValue commands.
+    onCellValueChange?(change: CellValueChange): void;
+
+    // A cell component mounted (again). Rows outside the viewport are not
+    // mounted, so plugins re-send state such as focus or selection here.
+    onCellMount?(cellId: CellId): void;
+
+    // A column was folded or expanded. Its cells are unmounted while folded,
+    // so plugins move state such as focus or selection off them here.
+    onColumnFold?(columnKey: string, folded: boolean): void;
+
+    // Column headers are not cells and get no commands. Plugins draw into them
+    // with renderHeader and react to clicks with onHeaderClick.
+    renderHeader?(columnKey: string): React.ReactNode;
+    onHeaderClick?(columnKey: string, event: MouseEvent): void;
+
     // Dependency management
     getPlugin<T extends BasePlugin>(pluginName: string): T | null {
         return this.pluginManager?.getPlugin(pluginName) || null;
@@ -1,22 +1,13 @@
-import type { CellRegistry } from "./Registries";
-import { RowRegistry } from "./Registries";
+import type { CellRegistry, RowRegistry } from "./Registries";
 import type { CellCoordinate, CellCoordinatorI, CellId, RowId } from "./types";
 
 export class CellCoordinator implements CellCoordinatorI {
-  private static instance: CellCoordinator | null = null;
   private registry: CellRegistry; // explicit field
   private rowRegistry: RowRegistry<any>; // row registry for row linking
 
-  private constructor(registry: CellRegistry) {
+  constructor(registry: CellRegistry, rowRegistry: RowRegistry<unknown>) {
     this.registry = registry; // assign manually
-    this.rowRegistry = RowRegistry.getInstance();
-  }
-
-  static getInstance(registry: CellRegistry): CellCoordinator {
-    if (!CellCoordinator.instance) {
-      CellCoordinator.instance = new CellCoordinator(registry);
-    }
-    return CellCoordinator.instance;
+    this.rowRegistry = rowRegistry;
   }
 
   // Link two cells vertically: top <-> bottom
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { clampColumnWidth, createColumnLayout, getColumnWindow, getMountedColumns, getPinnedOffsets, moveColumnKey, orderColumns, parseColumnWidth, pinColumns } from './ColumnLayout';
+
+const columns = (...keys: string[]) => keys.map(key => ({ key }));
+
+describe('parseColumnWidth', () => {
+  it('reads pixel widths and falls back for other units', () => {
+    expect(parseColumnWidth(80)).toBe(80);
+    expect(parseColumnWidth('120px')).toBe(120);
+    expect(parseColumnWidth(' 90 ')).toBe(90);
+    expect(parseColumnWidth('20%')).toBe(150);
+    expect(parseColumnWidth(undefined)).toBe(150);
+  });
+});
+
+describe('column order', () => {
+  it('moves a key before or after another one', () => {
+    expect(moveColumnKey(['a', 'b', 'c'], 'a', 'c', 'after')).toEqual(['b', 'c', 'a']);
+    expect(moveColumnKey(['a', 'b', 'c'], 'c', 'a', 'before')).toEqual(['c', 'a', 'b']);
+    expect(moveColumnKey(['a', 'b', 'c'], 'a', 'x', 'before')).toEqual(['a', 'b', 'c']);
+  });
+
+  it('keeps columns the order does not know after the known ones', () => {
+    const ordered = orderColumns(columns('a', 'b', 'c', 'd'), ['c', 'a']);
+    expect(ordered.map(column => column.key)).toEqual(['c', 'a', 'b', 'd']);
+    expect(orderColumns(columns('a', 'b'), null).map(column => column.key)).toEqual(['a', 'b']);
+  });
+
+  it('puts pinned columns at their edge', () => {
+    const pinned = pinColumns([{ key: 'a' }, { key: 'b', pinned: 'right' as const }, { key: 'c', pinned: 'left' as const }, { key: 'd' }]);
+    expect(pinned.map(column => column.key)).toEqual(['c', 'a', 'd', 'b']);
+  });
+});
+
+describe('clampColumnWidth', () => {
+  it('keeps widths inside the limits', () => {
+    expect(clampColumnWidth(10)).toBe(40);
+    expect(clampColumnWidth(10, 20)).toBe(20);
+    expect(clampColumnWidth(500, undefined, 300)).toBe(300);
+    expect(clampColumnWidth(100.4)).toBe(100);
+  });
+});
+
+describe('layout and window', () => {
+  const layout = createColumnLayout([
+    { key: 'pin', width: 50, pinned: 'left' },
+    { key: 'a', width: 100 },
+    { key: 'b', width: 100 },
+    { key: 'c', width: 100 },
+    { key: 'd', width: 100 },
+    { key: 'end', width: 60, pinned: 'right' }
+  ]);
+
+  it('lays columns out left to right', () => {
+    expect(layout.offsets).toEqual([0, 50, 150, 250, 350, 450]);
+    expect(layout.totalWidth).toBe(510);
+    expect(layout.pinnedLeft).toBe(1);
+    expect(layout.pinnedRight).toBe(1);
+  });
+
+  it('offsets pinned columns from their edge', () => {
+    const pinned = [{ key: 'pin', pinned: 'left' as const }, ...columns('a', 'b', 'c', 'd'), { key: 'end', pinned: 'right' as const }];
+    expect(getPinnedOffsets(pinned, layout, 16)).toEqual({ pin: 16, end: 0 });
+  });
+
+  it('mounts the scrolling columns in the viewport plus overscan', () => {
+    expect(getColumnWindow(layout, 160, 150, 0)).toEqual({ start: 2, end: 4, before: 100, after: 100 });
+    expect(getColumnWindow(layout, 160, 150, 1)).toEqual({ start: 1, end: 5, before: 0, after: 0 });
+  });
+
+  it('renders spacers for the unmounted columns', () => {
+    const all = [{ key: 'pin', pinned: 'left' as const }, ...columns('a', 'b', 'c', 'd'), { key: 'end', pinned: 'right' as const }];
+    const mounted = getMountedColumns(all, { start: 2, end: 4, before: 100, after: 100 });
+    expect(mounted.map(item => (item.type === 'column' ? item.column.key : `${item.key}:${item.width}`)))
+      .toEqual(['pin', 'spacer-before:100', 'b', 'c', 'spacer-after:100', 'end']);
+    expect(getMountedColumns(all)).toHaveLength(6);
+  });
+});
@@ -0,0 +1,163 @@
+// Horizontal layout of the columns, used to render only the columns inside
+// the scroll container's viewport.
+
+const DEFAULT_COLUMN_WIDTH = 150;
+
+// Width of the strip a folded column collapses into
+export const FOLDED_COLUMN_WIDTH = 12;
+
+// Narrowest a column can be resized to without a `minWidth`
+const DEFAULT_MIN_COLUMN_WIDTH = 40;
+
+export type PinnedSide = 'left' | 'right';
+
+// Scrolling columns that are mounted, plus the space taken by the ones left out
+// on each side. Pinned columns are outside the window and always mounted.
+export type ColumnWindow = {
+  start: number; // first mounted column index
+  end: number; // one past the last mounted column index
+  before: number; // pixels of unmounted columns between the left pinned ones and `start`
+  after: number; // pixels of unmounted columns between `end` and the right pinned ones
+};
+
+// A mounted column, or a spacer standing in for the unmounted ones
+export type MountedColumn<T> =
+  | { type: 'column'; column: T }
+  | { type: 'spacer'; key: string; width: number };
+
+export type ColumnLayout = {
+  keys: string[];
+  offsets: number[]; // left edge of every column
+  widths: number[];
+  totalWidth: number;
+  pinnedLeft: number; // number of pinned columns on each side, see pinColumns
+  pinnedRight: number;
+};
+
+// Column widths are numbers (pixels) or CSS strings. Only pixel values can be
+// laid out, anything else falls back to the default width.
+export function parseColumnWidth(width: number | string | undefined): number {
+  if (typeof width === 'number') return width;
+  if (typeof width === 'string' && /^\s*[\d.]+(px)?\s*$/.test(width)) {
+    return parseFloat(width);
+  }
+  return DEFAULT_COLUMN_WIDTH;
+}
+
+// Move a column key next to another one
+export function moveColumnKey(keys: string[], columnKey: string, targetKey: string, side: 'before' | 'after'): string[] {
+  if (columnKey === targetKey) return keys;
+  const rest = keys.filter(key => key !== columnKey);
+  const index = rest.indexOf(targetKey);
+  if (index === -1) return keys;
+  rest.splice(side === 'before' ? index : index + 1, 0, columnKey);
+  return rest;
+}
+
+// Columns in a user-chosen order. Columns the order does not know about keep
+// their place after the known ones.
+export function orderColumns<T extends { key: unknown }>(columns: T[], order: string[] | null): T[] {
+  if (!order) return columns;
+  const rank = new Map(order.map((key, index) => [key, index]));
+  const known = columns.filter(column => rank.has(String(column.key)));
+  known.sort((a, b) => rank.get(String(a.key))! - rank.get(String(b.key))!);
+  return [...known, ...columns.filter(column => !rank.has(String(column.key)))];
+}
+
+// Left pinned columns go first and right pinned ones last, so the cell links
+// (and with them keyboard navigation and selection) follow the rendered order
+export function pinColumns<T extends { key: unknown; pinned?: PinnedSide }>(columns: T[]): T[] {
+  return [
+    ...columns.filter(column => column.pinned === 'left'),
+    ...columns.filter(column => column.pinned !== 'left' && column.pinned !== 'right'),
+    ...columns.filter(column => column.pinned === 'right')
+  ];
+}
+
+export function countPinned(columns: { key: unknown; pinned?: PinnedSide }[], side: PinnedSide): number {
+  return columns.filter(column => column.pinned === side).length;
+}
+
+// Sticky offset of every pinned column: from the left edge for left pinned
+// columns, from the right edge for right pinned ones. Expects pinColumns order.
+// `leftInset` is sticky content before the first column (row drag handles).
+export function getPinnedOffsets(columns: { key: unknown; pinned?: PinnedSide }[], layout: ColumnLayout, leftInset = 0): Record<string, number> {
+  const offsets: Record<string, number> = {};
+  columns.forEach((column, index) => {
+    if (column.pinned === 'left') {
+      offsets[String(column.key)] = leftInset + layout.offsets[index];
+    } else if (column.pinned === 'right') {
+      offsets[String(column.key)] = layout.totalWidth - layout.offsets[index] - layout.widths[index];
+    }
+  });
+  return offsets;
+}
+
+// Columns to render for a window: the pinned ones, the window in between and
+// spacers for the rest. Without a window every column is mounted.
+export function getMountedColumns<T extends { key: unknown; pinned?: PinnedSide }>(columns: T[], window?: ColumnWindow): MountedColumn<T>[] {
+  const toMounted = (column: T): MountedColumn<T> => ({ type: 'column', column });
+  if (!window) return columns.map(toMounted);
+
+  const right = columns.length - countPinned(columns, 'right');
+  return [
+    ...columns.slice(0, countPinned(columns, 'left')).map(toMounted),
+    { type: 'spacer', key: 'spacer-before', width: window.before },
+    ...columns.slice(window.start, window.end).map(toMounted),
+    { type: 'spacer', key: 'spacer-after', width: window.after },
+    ...columns.slice(right).map(toMounted)
+  ];
+}
+
+// Keep a resized width inside the column's minWidth/maxWidth
+export function clampColumnWidth(width: number, minWidth?: number, maxWidth?: number): number {
+  const min = minWidth ?? DEFAULT_MIN_COLUMN_WIDTH;
+  const max = maxWidth ?? Infinity;
+  return Math.round(Math.min(max, Math.max(min, width)));
+}
+
+export function createColumnLayout(columns: { key: string; width: number; pinned?: PinnedSide }[]): ColumnLayout {
+  const offsets: number[] = [];
+  let totalWidth = 0;
+  columns.forEach(({ width }) => {
+    offsets.push(totalWidth);
+    totalWidth += width;
+  });
+  return {
+    keys: columns.map(column => column.key),
+    offsets,
+    widths: columns.map(column => column.width),
+    totalWidth,
+    pinnedLeft: countPinned(columns, 'left'),
+    pinnedRight: countPinned(columns, 'right')
+  };
+}
+
+export function getColumnWindow(
+  layout: ColumnLayout,
+  scrollLeft: number,
+  viewportWidth: number,
+  overscan: number
+): ColumnWindow {
+  const { offsets, widths, totalWidth, pinnedLeft, pinnedRight } = layout;
+  const count = widths.length;
+  const edge = (index: number) => (index < count ? offsets[index] : totalWidth);
+
+  let first = 0;
+  while (first < count - 1 && offsets[first] + widths[first] <= scrollLeft) {
+    first++;
+  }
+  let last = first;
+  while (last < count - 1 && offsets[last + 1] < scrollLeft + viewportWidth) {
+    last++;
+  }
+
+  // Pinned columns are always mounted, the window only covers the ones in between
+  const scrollingEnd = count - pinnedRight;
+  const start = Math.min(scrollingEnd, Math.max(pinnedLeft, first - overscan));
+  const end = Math.max(start, Math.min(scrollingEnd, last + 1 + overscan));
+  const before = edge(start) - edge(pinnedLeft);
+  const after = edge(scrollingEnd) - edge(end);
+
+  return { start, end, before, after };
+}
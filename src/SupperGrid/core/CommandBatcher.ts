@@ -0,0 +1,137 @@
+import type { BatchResult, BatchedCommand, CommandBatch } from './types';
+import type { BasePlugin } from './BasePlugin';
+import { v4 as uuidv4 } from 'uuid';
+
+// Runs a queued command; blockedBy is set when the whole batch was rejected
+type QueuedExecution = (blockedBy: string | null) => void;
+type QueuedCommand = { entry: BatchedCommand; execute: QueuedExecution };
+
+// Shared by the cell, row and space registries. While a batch is open they
+// queue commands here instead of dispatching them; when the outermost batch
+// closes, plugins see the batch as one unit and every command is dispatched
+// in a single synchronous pass, which React turns into a single commit.
+export class CommandBatcher {
+    private plugins: BasePlugin[] = [];
+    private current: { id: string; queue: QueuedCommand[]; deferred: (() => void)[] } | null = null;
+    // Batch whose commands are being delivered right now
+    private delivering: string | null = null;
+
+    setPlugins(plugins: BasePlugin[]): void {
+        this.plugins = plugins;
+    }
+
+    isBatching(): boolean {
+        return this.current !== null;
+    }
+
+    // ID of the batch being delivered, so work done by the receivers of its
+    // commands (e.g. cells committing values) can be tied to it
+    getDeliveringBatchId(): string | undefined {
+        return this.delivering ?? undefined;
+    }
+
+    // Queue a command if a batch is open. Returns false when it should be dispatched right away.
+    enqueue(entry: BatchedCommand, execute: QueuedExecution): boolean {
+        if (!this.current) return false;
+
+        entry.command.batchId = this.current.id;
+        this.current.queue.push({ entry, execute });
+        return true;
+    }
+
+    // Run fn once the commands of the current batch have been delivered (right
+    // away outside a batch). Used for changes that must not happen before the
+    // batch goes through, e.g. writing a value no cell checks. Dropped when the
+    // batch is blocked or fails.
+    defer(fn: () => void): void {
+        if (this.current) {
+            this.current.deferred.push(fn);
+        } else {
+            fn();
+        }
+    }
+
+    run(fn: () => void): void {
+        // Nested batches join the outer one
+        if (this.current) {
+            fn();
+            return;
+        }
+
+        const batch = { id: uuidv4(), queue: [] as QueuedCommand[], deferred: [] as (() => void)[] };
+        this.current = batch;
+
+        try {
+            fn();
+        } catch (error) {
+            // Atomic: a failing batch dispatches nothing and changes nothing
+            console.error(`CommandBatcher: Batch ${batch.id} failed, discarding ${batch.queue.length} commands:`, error);
+            this.current = null;
+            throw error;
+        }
+
+        this.current = null;
+        this.flush(batch);
+    }
+
+    private runDeferred(deferred: (() => void)[]): void {
+        deferred.forEach(fn => {
+            try {
+                fn();
+            } catch (error) {
+                console.error('CommandBatcher: Error in deferred batch callback:', error);
+            }
+        });
+    }
+
+    private flush(batch: { id: string; queue: QueuedCommand[]; deferred: (() => void)[] }): void {
+        if (batch.queue.length === 0 && batch.deferred.length === 0) return;
+
+        const commandBatch: CommandBatch = {
+            id: batch.id,
+            commands: batch.queue.map(({ entry }) => entry)
+        };
+
+        const blockedBy = this.runBeforeBatch(commandBatch);
+        // A batch opened by a receiver is delivered inside this one
+        const outer = this.delivering;
+        this.delivering = batch.id;
+        try {
+            batch.queue.forEach(({ execute }) => execute(blockedBy));
+            if (!blockedBy) {
+                this.runDeferred(batch.deferred);
+            }
+        } finally {
+            this.delivering = outer;
+        }
+
+        this.runAfterBatch(commandBatch, { blocked: blockedBy !== null, blockedBy });
+    }
+
+    private runBeforeBatch(batch: CommandBatch): string | null {
+        for (const plugin of this.plugins) {
+            if (!plugin.onBeforeBatch) continue;
+
+            try {
+                if (plugin.onBeforeBatch(batch) === false) {
+                    return plugin.name; // Plugin blocked the whole batch
+                }
+            } catch (error) {
+                console.error(`Error in plugin ${plugin.name} onBeforeBatch:`, error);
+            }
+        }
+        return null;
+    }
+
+    private runAfterBatch(batch: CommandBatch, result: BatchResult): void {
+        for (const plugin of this.plugins) {
+            if (!plugin.onAfterBatch) continue;
+
+            try {
+                plugin.onAfterBatch(batch, result);
+            } catch (error) {
+                console.error(`Error in plugin ${plugin.name} onAfterBatch:`, error);
+            }
+        }
+    }
+}
@@ -1,16 +1,28 @@
-import type { CellCommand, RowCommand, CellId, RowId, CellCommandHandeler, RowCommandMap } from './types';
+import type { CellCommand, RowCommand, CellId, RowId, CellCommandHandeler, RowCommandMap, CommandResult } from './types';
 import type { BasePlugin } from './BasePlugin';
+import type { CommandBatcher } from './CommandBatcher';
 
 export { SpaceCommandRegistry } from './SpaceCommandRegistry';
 
 export class CellCommandRegistry {
     private handlers = new Map<CellId, CellCommandHandeler>();
     private plugins: BasePlugin[] = [];
+    private batcher: CommandBatcher | null = null;
+    private observer: ((command: CellCommand, result: CommandResult) => void) | null = null;
 
     setPlugins(plugins: BasePlugin[]): void {
         this.plugins = plugins;
     }
 
+    setBatcher(batcher: CommandBatcher): void {
+        this.batcher = batcher;
+    }
+
+    // Called after every dispatch with its outcome (used for the public event stream)
+    setObserver(observer: ((command: CellCommand, result: CommandResult) => void) | null): void {
+        this.observer = observer;
+    }
+
     register(cellId: CellId, handler: CellCommandHandeler): void {
         this.handlers.set(cellId, handler);
     }
@@ -19,6 +31,14 @@ export class CellCommandRegistry {
         this.handlers.delete(cellId);
     }
 
+    has(cellId: CellId): boolean {
+        return this.handlers.has(cellId);
+    }
+
+    clear(): void {
+        this.handlers.clear();
+    }
+
 
     dispatch(command: CellCommand): void {
         // Set timestamp if not provided
@@ -26,20 +46,35 @@ export class CellCommandRegistry {
             (command as any).timestamp = Date.now();
         }
 
-        // Run command through plugin chain first
-        const shouldContinue = this.runPluginChain(command);
-        if (!shouldContinue) {
-            return; // Command was blocked by a plugin
+        // Inside a batch the command waits until the batch is flushed
+        if (this.batcher?.enqueue({ type: 'cell', command }, blockedBy => this.process(command, blockedBy))) {
+            return;
+        }
+
+        this.process(command, null);
+    }
+
+    private process(command: CellCommand, batchBlockedBy: string | null): void {
+        // Run command through plugin chain first (unless the whole batch was blocked)
+        const blockedBy = batchBlockedBy ?? this.runPluginChain(command);
+        if (blockedBy) {
+            // Command was blocked by a plugin
+            this.notifyAfterCommand(command, { blocked: true, blockedBy, delivered: false });
+            return;
         }
 
         // Only deliver to cell if command has a targetId
+        let delivered = false;
         if (command.targetId) {
-            this.deliverToCell(command);
+            delivered = this.deliverToCell(command);
         }
         // Commands without targetId are plugin-only and stop here
+
+        this.notifyAfterCommand(command, { blocked: false, blockedBy: null, delivered });
     }
 
-    private runPluginChain(command: CellCommand): boolean {
+    // Returns the name of the plugin that blocked the command, or null
+    private runPluginChain(command: CellCommand): string | null {
         for (const plugin of this.plugins) {
             // Skip plugin that created this command (bypass system)
             if (command.originPlugin === plugin.name) {
@@ -49,54 +84,90 @@ export class CellCommandRegistry {
             try {
                 const result = plugin.onBeforeCellCommand(command);
                 if (result === false) {
-                    return false; // Plugin blocked the command
+                    return plugin.name; // Plugin blocked the command
                 }
             } catch (error) {
                 console.error(`Error in plugin ${plugin.name} onBeforeCellCommand:`, error);
                 // Continue to next plugin on error
             }
         }
-        return true; // Command passed all plugins
+        return null; // Command passed all plugins
     }
 
-    private deliverToCell(command: CellCommand): void {
-        if (!command.targetId) return; // Should not happen due to dispatch logic, but safety check
+    private notifyAfterCommand(command: CellCommand, result: CommandResult): void {
+        for (const plugin of this.plugins) {
+            // Same bypass rule as the onBefore chain
+            if (command.originPlugin === plugin.name || !plugin.onAfterCellCommand) {
+                continue;
+            }
+
+            try {
+                plugin.onAfterCellCommand(command, result);
+            } catch (error) {
+                console.error(`Error in plugin ${plugin.name} onAfterCellCommand:`, error);
+            }
+        }
+
+        if (this.observer) {
+            try {
+                this.observer(command, result);
+            } catch (error) {
+                console.error(`Error in command observer for "${command.name}":`, error);
+            }
+        }
+    }
+
+    private deliverToCell(command: CellCommand): boolean {
+        if (!command.targetId) return false; // Should not happen due to dispatch logic, but safety check
         
         const handler = this.handlers.get(command.targetId);
-        if (handler) {
+        if (!handler) return false;
+
+        try {
+            handler(command);
+        } catch (error) {
+            console.error(`Error handling command "${command.name}" for cell ${command.targetId}:`, error);
+
+            // Send error command back to the cell
+            const errorCommand: CellCommand = {
+                name: 'error',
+                targetId: command.targetId,
+                timestamp: Date.now(),
+                payload: { error },
+                originPlugin: 'system'
+            };
+
+            // Attempt to deliver error command (no plugin interception for error commands from system)
             try {
-                handler(command);
-            } catch (error) {
-                console.error(`Error handling command "${command.name}" for cell ${command.targetId}:`, error);
-
-                // Send error command back to the cell
-                const errorCommand: CellCommand = {
-                    name: 'error',
-                    targetId: command.targetId,
-                    timestamp: Date.now(),
-                    payload: { error },
-                    originPlugin: 'system'
-                };
-
-                // Attempt to deliver error command (no plugin interception for error commands from system)
-                try {
-                    handler(errorCommand);
-                } catch (nestedError) {
-                    console.error(`Failed to deliver error command to cell ${command.targetId}:`, nestedError);
-                }
+                handler(errorCommand);
+            } catch (nestedError) {
+                console.error(`Failed to deliver error command to cell ${command.targetId}:`, nestedError);
             }
         }
+
+        return true;
     }
 }
 
 export class RowCommandRegistry {
     private handlers = new Map<RowId, (command: RowCommand<any>) => void>();
     private plugins: BasePlugin[] = [];
+    private batcher: CommandBatcher | null = null;
+    private observer: ((command: RowCommand, result: CommandResult) => void) | null = null;
 
     setPlugins(plugins: BasePlugin[]): void {
         this.plugins = plugins;
     }
 
+    setBatcher(batcher: CommandBatcher): void {
+        this.batcher = batcher;
+    }
+
+    // Called after every dispatch with its outcome (used for the public event stream)
+    setObserver(observer: ((command: RowCommand, result: CommandResult) => void) | null): void {
+        this.observer = observer;
+    }
+
     register<K extends keyof RowCommandMap>(rowId: RowId, handler: (command: RowCommand<K>) => void): void {
         this.handlers.set(rowId, handler);
     }
@@ -105,23 +176,39 @@ export class RowCommandRegistry {
         this.handlers.delete(rowId);
     }
 
+    clear(): void {
+        this.handlers.clear();
+    }
+
     dispatch<K extends keyof RowCommandMap>(command: RowCommand<K>): void {
         // Set timestamp if not provided
         if (!command.timestamp) {
             (command as any).timestamp = Date.now();
         }
 
-        // Run command through plugin chain first
-        const shouldContinue = this.runPluginChain(command);
-        if (!shouldContinue) {
-            return; // Command was blocked by a plugin
+        // Inside a batch the command waits until the batch is flushed
+        if (this.batcher?.enqueue({ type: 'row', command }, blockedBy => this.process(command, blockedBy))) {
+            return;
+        }
+
+        this.process(command, null);
+    }
+
+    private process<K extends keyof RowCommandMap>(command: RowCommand<K>, batchBlockedBy: string | null): void {
+        // Run command through plugin chain first (unless the whole batch was blocked)
+        const blockedBy = batchBlockedBy ?? this.runPluginChain(command);
+        if (blockedBy) {
+            // Command was blocked by a plugin
+            this.notifyAfterCommand(command, { blocked: true, blockedBy, delivered: false });
+            return;
         }
 
         // Deliver to row if command passed plugin chain
-        this.deliverToRow(command);
+        const delivered = this.deliverToRow(command);
+        this.notifyAfterCommand(command, { blocked: false, blockedBy: null, delivered });
     }
 
-    private runPluginChain<K extends keyof RowCommandMap>(command: RowCommand<K>): boolean {
+    private runPluginChain<K extends keyof RowCommandMap>(command: RowCommand<K>): string | null {
         for (const plugin of this.plugins) {
             // Skip plugin that created this command (bypass system)
             if (command.originPlugin === plugin.name) {
@@ -131,41 +218,66 @@ export class RowCommandRegistry {
             try {
                 const result = plugin.onBeforeRowCommand(command);
                 if (result === false) {
-                    return false; // Plugin blocked the command
+                    return plugin.name; // Plugin blocked the command
                 }
             } catch (error) {
                 console.error(`Error in plugin ${plugin.name} onBeforeRowCommand:`, error);
                 // Continue to next plugin on error
             }
         }
-        return true; // Command passed all plugins
+        return null; // Command passed all plugins
     }
 
-    private deliverToRow<K extends keyof RowCommandMap>(command: RowCommand<K>): void {
-        const handler = this.handlers.get(command.targetId);
-        if (handler) {
+    private notifyAfterCommand<K extends keyof RowCommandMap>(command: RowCommand<K>, result: CommandResult): void {
+        for (const plugin of this.plugins) {
+            // Same bypass rule as the onBefore chain
+            if (command.originPlugin === plugin.name || !plugin.onAfterRowCommand) {
+                continue;
+            }
+
             try {
-                handler(command);
+                plugin.onAfterRowCommand(command, result);
             } catch (error) {
-                console.error(`Error handling command "${command.name}" for row ${command.targetId}:`, error);
-
-                // Send error command back to the row
-                const errorCommand: RowCommand<'error'> = {
-                    name: 'error',
-                    targetId: command.targetId,
-                    timestamp: Date.now(),
-                    payload: { error },
-                    originPlugin: 'system'
-                };
-
-                // Attempt to deliver error command (no plugin interception for error commands from system)
-                try {
-                    handler(errorCommand);
-                } catch (nestedError) {
-                    console.error(`Failed to deliver error command to row ${command.targetId}:`, nestedError);
-                }
+                console.error(`Error in plugin ${plugin.name} onAfterRowCommand:`, error);
+            }
+        }
+
+        if (this.observer) {
+            try {
+                this.observer(command, result);
+            } catch (error) {
+                console.error(`Error in command observer for "${command.name}":`, error);
+            }
+        }
+    }
+
+    private deliverToRow<K extends keyof RowCommandMap>(command: RowCommand<K>): boolean {
+        const handler = this.handlers.get(command.targetId);
+        if (!handler) return false;
+
+        try {
+            handler(command);
+        } catch (error) {
+            console.error(`Error handling command "${command.name}" for row ${command.targetId}:`, error);
+
+            // Send error command back to the row
+            const errorCommand: RowCommand<'error'> = {
+                name: 'error',
+                targetId: command.targetId,
+                timestamp: Date.now(),
+                payload: { error },
+                originPlugin: 'system'
+            };
+
+            // Attempt to deliver error command (no plugin interception for error commands from system)
+            try {
+                handler(errorCommand);
+            } catch (nestedError) {
+                console.error(`Failed to deliver error command to row ${command.targetId}:`, nestedError);
             }
         }
+
+        return true;
     }
 }
 
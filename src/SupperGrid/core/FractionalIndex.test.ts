@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { compareFractionalIndex, generateEvenlySpacedKeys, generateKeyBetween, generateNKeysBetween } from './FractionalIndex';
+
+const isAscending = (keys: string[]) => keys.every((key, i) => i === 0 || compareFractionalIndex(keys[i - 1], key) < 0);
+
+describe('generateKeyBetween', () => {
+  it('generates a key for an empty space', () => {
+    expect(generateKeyBetween(null, null)).toBe('i');
+  });
+
+  it('generates keys strictly between the bounds', () => {
+    const pairs: [string | null, string | null][] = [[null, 'i'], ['i', null], ['1', '2'], ['5', '5i'], ['z', null], [null, '01']];
+    pairs.forEach(([lower, upper]) => {
+      const key = generateKeyBetween(lower, upper);
+      if (lower !== null) expect(compareFractionalIndex(lower, key)).toBeLessThan(0);
+      if (upper !== null) expect(compareFractionalIndex(key, upper)).toBeLessThan(0);
+      expect(key.endsWith('0')).toBe(false);
+    });
+  });
+
+  it('keeps finding room between ever closer keys', () => {
+    let lower = '1';
+    const upper = '2';
+    for (let i = 0; i < 200; i++) {
+      const key = generateKeyBetween(lower, upper);
+      expect(compareFractionalIndex(lower, key)).toBeLessThan(0);
+      expect(compareFractionalIndex(key, upper)).toBeLessThan(0);
+      lower = key;
+    }
+  });
+
+  it('rejects invalid or misordered bounds', () => {
+    expect(() => generateKeyBetween('a0', null)).toThrow();
+    expect(() => generateKeyBetween('A', null)).toThrow();
+    expect(() => generateKeyBetween('5', '5')).toThrow();
+    expect(() => generateKeyBetween('6', '5')).toThrow();
+  });
+});
+
+describe('generateEvenlySpacedKeys', () => {
+  it('returns ascending keys of equal length', () => {
+    [1, 35, 36, 1000].forEach(count => {
+      const keys = generateEvenlySpacedKeys(count);
+      expect(keys).toHaveLength(count);
+      expect(isAscending(keys)).toBe(true);
+      expect(new Set(keys).size).toBe(count);
+    });
+  });
+
+  it('returns nothing for no rows', () => {
+    expect(generateEvenlySpacedKeys(0)).toEqual([]);
+  });
+});
+
+describe('generateNKeysBetween', () => {
+  it('returns ascending keys inside the bounds', () => {
+    const keys = generateNKeysBetween('1', '2', 100);
+    expect(keys).toHaveLength(100);
+    expect(isAscending(['1', ...keys, '2'])).toBe(true);
+  });
+
+  it('keeps keys short by bisecting', () => {
+    const keys = generateNKeysBetween(null, null, 1000);
+    expect(Math.max(...keys.map(key => key.length))).toBeLessThanOrEqual(12);
+  });
+});
@@ -0,0 +1,112 @@
+// Variable-length fractional keys (LexoRank style) for ordering rows.
+//
+// A key is read as the digits of a base-36 fraction in [0, 1), so "5" is 5/36
+// and "5i" sits halfway between "5" and "6". Keys never end in "0", which
+// guarantees that there is always room for another key between any two of
+// them: we only ever need to append digits, never renumber neighbours.
+//
+// Plain string comparison orders keys correctly (digits sort before letters
+// in ASCII), so callers must not use localeCompare on them.
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+const BASE = DIGITS.length;
+
+function isValidKey(key: string): boolean {
+  if (key.length === 0 || key.endsWith(DIGITS[0])) return false;
+  for (const char of key) {
+    if (!DIGITS.includes(char)) return false;
+  }
+  return true;
+}
+
+// Midpoint between two digit strings, where an empty lower bound means 0 and a
+// null upper bound means 1
+function midpoint(lower: string, upper: string | null): string {
+  if (upper !== null) {
+    // Skip the common prefix, padding the lower bound with zeros
+    let n = 0;
+    while ((lower[n] || DIGITS[0]) === upper[n]) {
+      n++;
+    }
+    if (n > 0) {
+      return upper.slice(0, n) + midpoint(lower.slice(n), upper.slice(n));
+    }
+  }
+
+  const digitLower = lower ? DIGITS.indexOf(lower[0]) : 0;
+  const digitUpper = upper !== null ? DIGITS.indexOf(upper[0]) : BASE;
+
+  if (digitUpper - digitLower > 1) {
+    // There is a free digit between the two bounds
+    return DIGITS[Math.round((digitLower + digitUpper) / 2)];
+  }
+
+  // Adjacent digits - a shorter upper bound is still strictly greater than lower
+  if (upper !== null && upper.length > 1) {
+    return upper.slice(0, 1);
+  }
+
+  // Keep the lower digit and go one level deeper
+  return DIGITS[digitLower] + midpoint(lower.slice(1), null);
+}
+
+export function compareFractionalIndex(a: string, b: string): number {
+  if (a < b) return -1;
+  if (a > b) return 1;
+  return 0;
+}
+
+// Generate a key strictly between lower and upper. A null bound is open-ended.
+export function generateKeyBetween(lower: string | null, upper: string | null): string {
+  if (lower !== null && !isValidKey(lower)) {
+    throw new Error(`Invalid fractional index: "${lower}"`);
+  }
+  if (upper !== null && !isValidKey(upper)) {
+    throw new Error(`Invalid fractional index: "${upper}"`);
+  }
+  if (lower !== null && upper !== null && lower >= upper) {
+    throw new Error(`Fractional index "${lower}" must be lower than "${upper}"`);
+  }
+
+  return midpoint(lower ?? '', upper);
+}
+
+// Generate `count` ascending keys spread evenly over the key space. All keys
+// share the shortest length that can hold them, which makes this the base for
+// both initial data and rebalancing.
+export function generateEvenlySpacedKeys(count: number): string[] {
+  if (count <= 0) return [];
+
+  let length = 1;
+  while (Math.pow(BASE, length) <= count) {
+    length++;
+  }
+
+  const range = Math.pow(BASE, length);
+  const step = range / (count + 1);
+  const keys: string[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const value = Math.floor((i + 1) * step);
+    // Trailing zeros carry no value, and stripping them keeps keys valid
+    keys.push(value.toString(BASE).padStart(length, DIGITS[0]).replace(/0+$/, ''));
+  }
+
+  return keys;
+}
+
+// Generate `count` ascending keys between lower and upper. Bisecting keeps key
+// length logarithmic in `count`, unlike chaining generateKeyBetween.
+export function generateNKeysBetween(lower: string | null, upper: string | null, count: number): string[] {
+  if (count <= 0) return [];
+
+  const middle = generateKeyBetween(lower, upper);
+  if (count === 1) return [middle];
+
+  const lowerCount = Math.floor((count - 1) / 2);
+  return [
+    ...generateNKeysBetween(lower, middle, lowerCount),
+    middle,
+    ...generateNKeysBetween(middle, upper, count - lowerCount - 1),
+  ];
+}
@@ -113,7 +113,7 @@ export class PluginManager implements IPluginManager {
 
         // Step 4: Resolve dependencies in each phase
         const normalOrder = this.resolveDependencies(normalPlugins, allPlugins, 'normal');
-        const processLastOrder = this.resolveDependencies(finalProcessLastPlugins, allPlugins, 'processLast');
+        const processLastOrder = this.resolveDependencies(finalProcessLastPlugins, allPlugins, 'processLast', normalPlugins);
 
         // Step 5: Combine the orders
         const finalOrder = [...normalOrder, ...processLastOrder];
@@ -122,7 +122,8 @@ export class PluginManager implements IPluginManager {
         this.initializationOrder = finalOrder;
     }
 
-    private resolveDependencies(pluginSet: Set<string>, allPlugins: Map<string, BasePlugin>, phase: string): string[] {
+    // `earlierPlugins` are ordered before this phase, so depending on them is fine
+    private resolveDependencies(pluginSet: Set<string>, allPlugins: Map<string, BasePlugin>, phase: string, earlierPlugins = new Set<string>()): string[] {
         const visited = new Set<string>();
         const visiting = new Set<string>();
         const order: string[] = [];
@@ -153,7 +154,7 @@ export class PluginManager implements IPluginManager {
             for (const dependency of plugin.dependencies) {
                 if (pluginSet.has(dependency)) {
                     visit(dependency);
-                } else {
+                } else if (!earlierPlugins.has(dependency)) {
                     // This should not happen after proper phase adjustment
                     throw new Error(`Plugin ${pluginName} depends on ${dependency} which is not in the same phase`);
                 }
@@ -38,49 +38,12 @@ class Registry<T_ID, T_Obj> implements RegistryI<T_ID, T_Obj> {
   }
 }
 
-class CellRegistry extends Registry<CellId, Cell> {
-  private static instance: CellRegistry | null = null;
+// Each TableCore owns its own set of registries, so grids on the same page
+// never see each other's cells, rows or spaces.
+class CellRegistry extends Registry<CellId, Cell> {}
 
-  private constructor() {
-    super();
-  }
-
-  static getInstance(): CellRegistry {
-    if (!CellRegistry.instance) {
-      CellRegistry.instance = new CellRegistry();
-    }
-    return CellRegistry.instance;
-  }
-}
+class RowRegistry<T> extends Registry<RowId, Row<T>> {}
 
-class RowRegistry<T> extends Registry<RowId, Row<T>> {
-  private static instance: RowRegistry<any> | null = null;
-
-  private constructor() {
-    super();
-  }
-
-  static getInstance<T>(): RowRegistry<T> {
-    if (!RowRegistry.instance) {
-      RowRegistry.instance = new RowRegistry<T>();
-    }
-    return RowRegistry.instance as RowRegistry<T>;
-  }
-}
-
-class SpaceRegistry extends Registry<SpaceId, Space> {
-  private static instance: SpaceRegistry | null = null;
-
-  private constructor() {
-    super();
-  }
-
-  static getInstance(): SpaceRegistry {
-    if (!SpaceRegistry.instance) {
-      SpaceRegistry.instance = new SpaceRegistry();
-    }
-    return SpaceRegistry.instance;
-  }
-}
+class SpaceRegistry extends Registry<SpaceId, Space> {}
 
 export { CellRegistry, SpaceRegistry, RowRegistry };
@@ -1,14 +1,26 @@
-import type { SpaceCommand, SpaceId, SpaceCommandMap, SpaceCommandHandler } from './types';
+import type { SpaceCommand, SpaceId, SpaceCommandMap, SpaceCommandHandler, CommandResult } from './types';
 import type { BasePlugin } from './BasePlugin';
+import type { CommandBatcher } from './CommandBatcher';
 
 export class SpaceCommandRegistry {
     private handlers = new Map<SpaceId, SpaceCommandHandler>();
     private plugins: BasePlugin[] = [];
+    private batcher: CommandBatcher | null = null;
+    private observer: ((command: SpaceCommand, result: CommandResult) => void) | null = null;
 
     setPlugins(plugins: BasePlugin[]): void {
         this.plugins = plugins;
     }
 
+    setBatcher(batcher: CommandBatcher): void {
+        this.batcher = batcher;
+    }
+
+    // Called after every dispatch with its outcome (used for the public event stream)
+    setObserver(observer: ((command: SpaceCommand, result: CommandResult) => void) | null): void {
+        this.observer = observer;
+    }
+
     register<K extends keyof SpaceCommandMap>(spaceId: SpaceId, handler: (command: SpaceCommand<K>) => void): void {
         this.handlers.set(spaceId, handler);
     }
@@ -17,23 +29,39 @@ export class SpaceCommandRegistry {
         this.handlers.delete(spaceId);
     }
 
+    clear(): void {
+        this.handlers.clear();
+    }
+
     dispatch<K extends keyof SpaceCommandMap>(command: SpaceCommand<K>): void {
         // Set timestamp if not provided
         if (!command.timestamp) {
             (command as any).timestamp = Date.now();
         }
 
-        // Run command through plugin chain first
-        const shouldContinue = this.runPluginChain(command);
-        if (!shouldContinue) {
-            return; // Command was blocked by a plugin
+        // Inside a batch the command waits until the batch is flushed
+        if (this.batcher?.enqueue({ type: 'space', command }, blockedBy => this.process(command, blockedBy))) {
+            return;
+        }
+
+        this.process(command, null);
+    }
+
+    private process<K extends keyof SpaceCommandMap>(command: SpaceCommand<K>, batchBlockedBy: string | null): void {
+        // Run command through plugin chain first (unless the whole batch was blocked)
+        const blockedBy = batchBlockedBy ?? this.runPluginChain(command);
+        if (blockedBy) {
+            // Command was blocked by a plugin
+            this.notifyAfterCommand(command, { blocked: true, blockedBy, delivered: false });
+            return;
         }
 
         // Deliver to space if command passed plugin chain
-        this.deliverToSpace(command);
+        const delivered = this.deliverToSpace(command);
+        this.notifyAfterCommand(command, { blocked: false, blockedBy: null, delivered });
     }
 
-    private runPluginChain<K extends keyof SpaceCommandMap>(command: SpaceCommand<K>): boolean {
+    private runPluginChain<K extends keyof SpaceCommandMap>(command: SpaceCommand<K>): string | null {
         for (const plugin of this.plugins) {
             // Skip plugin that created this command (bypass system)
             if (command.originPlugin === plugin.name) {
@@ -43,27 +71,52 @@ export class SpaceCommandRegistry {
             try {
                 const result = plugin.onBeforeSpaceCommand(command);
                 if (result === false) {
-                    return false; // Plugin blocked the command
+                    return plugin.name; // Plugin blocked the command
                 }
             } catch (error) {
                 console.error(`Error in plugin ${plugin.name} onBeforeSpaceCommand:`, error);
                 // Continue to next plugin on error
             }
         }
-        return true; // Command passed all plugins
+        return null; // Command passed all plugins
     }
 
-    private deliverToSpace<K extends keyof SpaceCommandMap>(command: SpaceCommand<K>): void {
-        const handler = this.handlers.get(command.targetSpaceId);
-        if (handler) {
+    private notifyAfterCommand<K extends keyof SpaceCommandMap>(command: SpaceCommand<K>, result: CommandResult): void {
+        for (const plugin of this.plugins) {
+            // Same bypass rule as the onBefore chain
+            if (command.originPlugin === plugin.name || !plugin.onAfterSpaceCommand) {
+                continue;
+            }
+
             try {
-                handler(command);
+                plugin.onAfterSpaceCommand(command, result);
             } catch (error) {
-                console.error(`Error handling command "${command.name}" for space ${command.targetSpaceId}:`, error);
+                console.error(`Error in plugin ${plugin.name} onAfterSpaceCommand:`, error);
+            }
+        }
 
-                // Send error command back to the space (if we had error space commands)
-                // For now, just log the error
+        if (this.observer) {
+            try {
+                this.observer(command, result);
+            } catch (error) {
+                console.error(`Error in command observer for "${command.name}":`, error);
             }
         }
     }
+
+    private deliverToSpace<K extends keyof SpaceCommandMap>(command: SpaceCommand<K>): boolean {
+        const handler = this.handlers.get(command.targetSpaceId);
+        if (!handler) return false;
+
+        try {
+            handler(command);
+        } catch (error) {
+            console.error(`Error handling command "${command.name}" for space ${command.targetSpaceId}:`, error);
+
+            // Send error command back to the space (if we had error space commands)
+            // For now, just log the error
+        }
+
+        return true;
+    }
 }
\ No newline at end of file
@@ -2,20 +2,12 @@ import type { SpaceRegistry } from "./Registries";
 import type { SpaceId, Space } from "./types";
 
 export class SpaceCoordinator {
-  private static instance: SpaceCoordinator | null = null;
   private registry: SpaceRegistry;
 
-  private constructor(registry: SpaceRegistry) {
+  constructor(registry: SpaceRegistry) {
     this.registry = registry;
   }
 
-  static getInstance(registry: SpaceRegistry): SpaceCoordinator {
-    if (!SpaceCoordinator.instance) {
-      SpaceCoordinator.instance = new SpaceCoordinator(registry);
-    }
-    return SpaceCoordinator.instance;
-  }
-
   // Link two spaces vertically: top <-> bottom
   linkVertical(topId: SpaceId, bottomId: SpaceId): void {
     const topSpace = this.registry.get(topId);
@@ -30,14 +22,15 @@ export class SpaceCoordinator {
   }
 
   // Create a new space for a plugin and link it to the bottom of the chain
-  createPluginSpace(pluginName: string): SpaceId {
+  createPluginSpace(pluginName: string, sticky = false): SpaceId {
     const spaceId = `space-${pluginName}`;
     
     const newSpace: Space = {
       name: `${pluginName} Space`,
       owner: pluginName,
       top: null,
-      bottom: null
+      bottom: null,
+      sticky
     };
 
     // Find the bottom-most space
@@ -69,6 +62,11 @@ export class SpaceCoordinator {
     return space?.top || null;
   }
 
+  // Sticky spaces stay at the top of the scroll viewport
+  isSticky(spaceId: SpaceId): boolean {
+    return this.registry.get(spaceId)?.sticky === true;
+  }
+
   // Get the space below this one
   getSpaceBelow(spaceId: SpaceId): SpaceId | null {
     const space = this.registry.get(spaceId);
@@ -1,5 +1,5 @@
 import { createContext, useContext } from 'react';
-import type { CellId, RowId, SpaceId, CellCommandHandeler, RowCommandHandler, SpaceCommandHandler, Cell } from './types';
+import type { CellId, RowId, SpaceId, CellCommandHandeler, RowCommandHandler, SpaceCommandHandler, RowMovePosition } from './types';
 
 export interface TableContextValue {
     // Event reporting
@@ -8,12 +8,17 @@ export interface TableContextValue {
 
     // Cell registration
     registerCellCommands: (cellId: CellId, handler: CellCommandHandeler) => void;
-    registerCell: (cellId: CellId, cell: Cell) => void;
-    addCellToRow: (rowId: RowId, cellId: CellId) => void;
+    unregisterCellCommands: (cellId: CellId) => void;
+    getCellId: (rowId: RowId, columnKey: string) => CellId | undefined;
+    isColumnFolded: (columnKey: string) => boolean;
+    commitCellValue: (cellId: CellId, value: unknown) => void;
+    reportCellError: (cellId: CellId, error: unknown) => void;
 
     // Row registration
     registerRowHandler: (rowId: RowId, handler: RowCommandHandler) => void;
     unregisterRowHandler: (rowId: RowId) => void;
+    draggableRows: boolean;
+    moveRow: (rowId: RowId, position: RowMovePosition) => boolean;
 
     // Space registration
     registerSpaceHandler: (spaceId: SpaceId, handler: SpaceCommandHandler) => void;
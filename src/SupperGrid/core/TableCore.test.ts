@@ -0,0 +1,364 @@
+import { describe, expect, it } from 'vitest';
+import { TableCore } from './TableCore';
+import { BasePlugin, type TablePluginAPIs } from './BasePlugin';
+import type { CellCommand, CellValueChange, CommandBatch, CommandEvent, CommandResult, RowCommand } from './types';
+
+// Records what it sees and blocks what it is told to
+class RecordingPlugin extends BasePlugin {
+  readonly name: string;
+  readonly version = '1.0.0';
+  seen: string[] = [];
+  results: CommandResult[] = [];
+  batches: CommandBatch[] = [];
+  changes: CellValueChange[] = [];
+  blockCommand: string | null = null;
+  blockBatches = false;
+
+  constructor(name = 'recorder') {
+    super();
+    this.name = name;
+  }
+
+  onBeforeCellCommand(command: CellCommand): boolean | void {
+    this.seen.push(`${command.name}:${command.targetId ?? '-'}`);
+    return command.name !== this.blockCommand;
+  }
+
+  onAfterCellCommand(_command: CellCommand, result: CommandResult): void {
+    this.results.push(result);
+  }
+
+  onBeforeRowCommand(command: RowCommand): boolean | void {
+    this.seen.push(`${command.name}:${command.targetId}`);
+    return command.name !== this.blockCommand;
+  }
+
+  onBeforeSpaceCommand(): boolean | void {
+    return true;
+  }
+
+  onBeforeBatch(batch: CommandBatch): boolean | void {
+    this.batches.push(batch);
+    return !this.blockBatches;
+  }
+
+  onCellValueChange(change: CellValueChange): void {
+    this.changes.push(change);
+  }
+
+  send(command: Parameters<TablePluginAPIs['createCellCommand']>[1], targetId: string) {
+    this.getTableAPIs().createCellCommand(targetId, command);
+  }
+}
+
+function createTable(...plugins: BasePlugin[]) {
+  const core = new TableCore();
+  plugins.forEach(plugin => core.addPlugin(plugin));
+  core.initializePlugins();
+  core.setColumns(['name', 'age']);
+
+  const delivered: string[] = [];
+  const events: CommandEvent[] = [];
+  core.subscribe(event => events.push(event));
+  const mount = (cellId: string) => core.mountCell(cellId, command => delivered.push(`${command.name}:${cellId}`));
+  return { core, delivered, events, mount };
+}
+
+describe('tables', () => {
+  it('keep their rows, cells and spaces to themselves', () => {
+    const { core: left } = createTable(new RecordingPlugin('left'));
+    const { core: right } = createTable(new RecordingPlugin('right'));
+    left.reconcileSpaceData('table-space', [{ name: 'a' }], row => row.name);
+    right.reconcileSpaceData('table-space', [{ name: 'b' }], row => row.name);
+
+    expect(left.getRowRegistry().list()).toEqual(['a']);
+    expect(right.getRowRegistry().list()).toEqual(['b']);
+    expect(left.getCellRegistry().list()).toEqual(['a:name', 'a:age']);
+    expect(right.getCellRegistry().list()).toEqual(['b:name', 'b:age']);
+
+    const leftSpaces = left.getSpaceRegistry().list();
+    const rightSpaces = right.getSpaceRegistry().list();
+    expect(leftSpaces).toHaveLength(1);
+    expect(rightSpaces).toHaveLength(1);
+    expect(leftSpaces).not.toEqual(rightSpaces);
+  });
+});
+
+describe('cell commands', () => {
+  it('run through the plugins before reaching the cell', () => {
+    const plugin = new RecordingPlugin();
+    const { core, delivered, events, mount } = createTable(plugin);
+    mount('c1');
+
+    core.focusCell('c1');
+
+    expect(plugin.seen).toEqual(['focus:c1']);
+    expect(delivered).toEqual(['focus:c1']);
+    expect(plugin.results).toEqual([{ blocked: false, blockedBy: null, delivered: true }]);
+    expect(events.map(event => event.command.name)).toEqual(['focus']);
+  });
+
+  it('stop at the plugin that blocks them', () => {
+    const plugin = new RecordingPlugin();
+    const { core, delivered, events, mount } = createTable(plugin);
+    mount('c1');
+    plugin.blockCommand = 'select';
+
+    core.selectCell('c1');
+
+    expect(delivered).toEqual([]);
+    expect(events[0].result).toEqual({ blocked: true, blockedBy: 'recorder', delivered: false });
+  });
+
+  it('report commands for unmounted cells as not delivered', () => {
+    const { core, events } = createTable();
+    core.focusCell('nowhere');
+    expect(events[0].result).toEqual({ blocked: false, blockedBy: null, delivered: false });
+  });
+
+  it('skip the plugin that created them', () => {
+    const sender = new RecordingPlugin('sender');
+    const other = new RecordingPlugin('other');
+    const { mount, delivered } = createTable(sender, other);
+    mount('c1');
+
+    sender.send({ name: 'focus' }, 'c1');
+
+    expect(sender.seen).toEqual([]);
+    expect(other.seen).toEqual(['focus:c1']);
+    expect(delivered).toEqual(['focus:c1']);
+  });
+
+  it('without a target only reach the plugins', () => {
+    const plugin = new RecordingPlugin();
+    const { core, delivered } = createTable(plugin);
+    core.dispatchKeyboardCommand('keydown', {} as KeyboardEvent);
+    expect(plugin.seen).toEqual(['keydown:-']);
+    expect(delivered).toEqual([]);
+  });
+});
+
+describe('batches', () => {
+  it('deliver their commands together once the outermost batch closes', () => {
+    const plugin = new RecordingPlugin();
+    const { core, delivered, mount } = createTable(plugin);
+    mount('c1');
+    mount('c2');
+
+    core.batch(() => {
+      core.focusCell('c1');
+      core.batch(() => core.selectCell('c2'));
+      expect(delivered).toEqual([]);
+    });
+
+    expect(delivered).toEqual(['focus:c1', 'select:c2']);
+    expect(plugin.batches).toHaveLength(1);
+    expect(plugin.batches[0].commands.map(entry => entry.command.name)).toEqual(['focus', 'select']);
+  });
+
+  it('deliver nothing when a plugin blocks the batch', () => {
+    const plugin = new RecordingPlugin();
+    const { core, delivered, events, mount } = createTable(plugin);
+    mount('c1');
+    plugin.blockBatches = true;
+
+    core.batch(() => core.focusCell('c1'));
+
+    expect(delivered).toEqual([]);
+    expect(events[0].result).toEqual({ blocked: true, blockedBy: 'recorder', delivered: false });
+  });
+
+  it('destroy rows only when they are delivered', () => {
+    const { core } = createTable();
+    core.reconcileSpaceData('table-space', [{ name: 'a' }, { name: 'b' }, { name: 'c' }], row => row.name);
+
+    core.batch(() => {
+      core.destroyRow('b');
+      expect(core.getRowIdsInSpaceSorted('table-space')).toEqual(['a', 'b', 'c']);
+      expect(core.getCellRegistry().get('a:name')?.bottom).toBe('b:name');
+    });
+
+    expect(core.getRowIdsInSpaceSorted('table-space')).toEqual(['a', 'c']);
+    expect(core.getCellRegistry().get('a:name')?.bottom).toBe('c:name');
+  });
+
+  it('change nothing when they throw', () => {
+    const { core } = createTable();
+    core.reconcileSpaceData('table-space', [{ name: 'a', age: 1 }, { name: 'b' }], row => row.name);
+    core.setColumns(['name']);
+
+    expect(() => core.batch(() => {
+      core.destroyRow('b');
+      core.setRowValue('a', 'age', 2);
+      throw new Error('boom');
+    })).toThrow('boom');
+
+    expect(core.getRowIdsInSpaceSorted('table-space')).toEqual(['a', 'b']);
+    expect(core.getCellRegistry().has('b:name')).toBe(true);
+    expect(core.getRowRegistry().get('a')?.data.age).toBe(1);
+  });
+
+  it('write values of columns without cells only when they go through', () => {
+    const plugin = new RecordingPlugin();
+    const { core } = createTable(plugin);
+    core.reconcileSpaceData('table-space', [{ name: 'a', age: 1 }], row => row.name);
+    core.setColumns(['name']);
+
+    plugin.blockBatches = true;
+    core.batch(() => core.setRowValue('a', 'age', 2));
+    expect(core.getRowRegistry().get('a')?.data.age).toBe(1);
+
+    plugin.blockBatches = false;
+    core.batch(() => {
+      core.setRowValue('a', 'age', 3);
+      expect(core.getRowRegistry().get('a')?.data.age).toBe(1);
+    });
+    expect(core.getRowRegistry().get('a')?.data.age).toBe(3);
+    expect(plugin.changes.map(change => change.batchId)).toEqual([plugin.batches[1].id]);
+  });
+
+  it('reconcile data in the order it is given while removed rows wait for delivery', () => {
+    const { core } = createTable();
+    core.reconcileSpaceData('table-space', [{ name: 'a' }, { name: 'b' }, { name: 'c' }], row => row.name);
+
+    core.batch(() => {
+      core.reconcileSpaceData('table-space', [{ name: 'c' }, { name: 'd' }, { name: 'a' }], row => row.name);
+    });
+
+    expect(core.getRowIdsInSpaceSorted('table-space')).toEqual(['c', 'd', 'a']);
+    expect(core.getCellRegistry().get('c:name')?.bottom).toBe('d:name');
+    expect(core.getCellRegistry().get('d:name')?.bottom).toBe('a:name');
+  });
+
+  it('dispatch nothing when the batch throws', () => {
+    const { core, delivered, events, mount } = createTable();
+    mount('c1');
+
+    expect(() => core.batch(() => {
+      core.focusCell('c1');
+      throw new Error('boom');
+    })).toThrow('boom');
+
+    expect(delivered).toEqual([]);
+    expect(events).toEqual([]);
+  });
+});
+
+describe('rows', () => {
+  it('get one linked cell per column', () => {
+    const { core } = createTable();
+    core.reconcileSpaceData('table-space', [{ name: 'a', age: 1 }, { name: 'b', age: 2 }], row => row.name);
+
+    const [top, bottom] = core.getRowIdsInSpaceSorted('table-space');
+    expect([top, bottom]).toEqual(['a', 'b']);
+
+    const cells = core.getCellRegistry();
+    const topName = core.getCellId('a', 'name')!;
+    expect(cells.get(topName)).toMatchObject({ right: core.getCellId('a', 'age'), bottom: core.getCellId('b', 'name'), top: null });
+  });
+
+  it('added by reconciliation get cells and links between the rows they join', () => {
+    const { core } = createTable();
+    core.reconcileSpaceData('table-space', [{ name: 'a' }, { name: 'c' }], row => row.name);
+
+    core.reconcileSpaceData('table-space', [{ name: 'a' }, { name: 'b' }, { name: 'c' }], row => row.name);
+
+    expect(core.getRowIdsInSpaceSorted('table-space')).toEqual(['a', 'b', 'c']);
+    expect(core.getRowRegistry().get('b')?.cells).toEqual(['b:name', 'b:age']);
+    expect(core.getCellRegistry().get('b:name')).toMatchObject({ top: 'a:name', bottom: 'c:name', right: 'b:age' });
+  });
+
+  it('are relinked around a destroyed row', () => {
+    const { core } = createTable();
+    core.reconcileSpaceData('table-space', [{ name: 'a' }, { name: 'b' }, { name: 'c' }], row => row.name);
+
+    core.destroyRow('b');
+
+    expect(core.getRowIdsInSpaceSorted('table-space')).toEqual(['a', 'c']);
+    expect(core.getCellRegistry().get(core.getCellId('a', 'name')!)?.bottom).toBe(core.getCellId('c', 'name'));
+    expect(core.getCellRegistry().has('b:name')).toBe(false);
+  });
+
+  it('stay when a plugin blocks their destroy command', () => {
+    const plugin = new RecordingPlugin();
+    const { core } = createTable(plugin);
+    core.reconcileSpaceData('table-space', [{ name: 'a' }, { name: 'b' }], row => row.name);
+    plugin.blockCommand = 'destroy';
+
+    core.destroyRow('b');
+
+    expect(core.getRowIdsInSpaceSorted('table-space')).toEqual(['a', 'b']);
+    expect(core.getCellRegistry().get('a:name')?.bottom).toBe('b:name');
+  });
+});
+
+describe('cell values', () => {
+  const ages = [{ name: 'a', age: 1 }];
+
+  // A number cell: commits what parses, rejects the rest
+  const mountNumberCell = (core: TableCore, cellId: string) => core.mountCell(cellId, command => {
+    if (command.name !== 'updateValue') return;
+    const next = Number(String(command.payload.value).replace(',', ''));
+    if (Number.isNaN(next)) {
+      core.reportCellError(cellId, 'not a number');
+    } else {
+      core.commitCellValue(cellId, next);
+    }
+  });
+
+  it('are written as the cell commits them', () => {
+    const plugin = new RecordingPlugin();
+    const { core } = createTable(plugin);
+    core.reconcileSpaceData('table-space', ages, row => row.name);
+    mountNumberCell(core, 'a:age');
+
+    core.setRowValue('a', 'age', '1,234');
+
+    expect(core.getRowRegistry().get('a')?.data.age).toBe(1234);
+    expect(plugin.changes).toEqual([{ rowId: 'a', columnKey: 'age', oldValue: 1, newValue: 1234, batchId: undefined }]);
+  });
+
+  it('are not written when the cell rejects them', () => {
+    const plugin = new RecordingPlugin();
+    const { core } = createTable(plugin);
+    core.reconcileSpaceData('table-space', ages, row => row.name);
+    mountNumberCell(core, 'a:age');
+
+    core.setRowValue('a', 'age', 'abc');
+
+    expect(core.getRowRegistry().get('a')?.data.age).toBe(1);
+    expect(plugin.changes).toEqual([]);
+  });
+
+  it('are not written when a plugin blocks them', () => {
+    const plugin = new RecordingPlugin();
+    const { core } = createTable(plugin);
+    core.reconcileSpaceData('table-space', ages, row => row.name);
+    plugin.blockCommand = 'updateValue';
+
+    core.setRowValue('a', 'age', 2);
+
+    expect(core.getRowRegistry().get('a')?.data.age).toBe(1);
+  });
+
+  it('go straight into the data of rows whose cells are not mounted', () => {
+    const { core } = createTable();
+    core.reconcileSpaceData('table-space', ages, row => row.name);
+
+    core.setRowValue('a', 'age', 2);
+
+    expect(core.getRowRegistry().get('a')?.data.age).toBe(2);
+  });
+
+  it('committed while a batch is delivered belong to the batch', () => {
+    const plugin = new RecordingPlugin();
+    const { core } = createTable(plugin);
+    core.reconcileSpaceData('table-space', ages, row => row.name);
+    mountNumberCell(core, 'a:age');
+
+    core.batch(() => core.setRowValue('a', 'age', '5'));
+
+    expect(plugin.changes).toHaveLength(1);
+    expect(plugin.changes[0].batchId).toBe(plugin.batches[0].id);
+  });
+});
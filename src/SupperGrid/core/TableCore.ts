@@ -7,38 +7,80 @@ import type {
   SpaceId,
   CellCommandHandeler,
   RowCommandMap,
+  RowMovePosition,
   SpaceCommandMap,
+  CommandEvent,
+  CommandListener,
+  CommandResult,
+  CellValueChange,
+  ColumnConfig,
+  TableConfig,
 } from './types';
 import type { TablePluginAPIs, RowPluginAPIs, RowTableAPIs } from './BasePlugin';
 import { CellCommandRegistry, RowCommandRegistry, SpaceCommandRegistry } from './CommandRegistry';
 import { PluginManager } from './PluginManager';
+import { CommandBatcher } from './CommandBatcher';
 import type { BasePlugin } from './BasePlugin';
 import { CellRegistry, RowRegistry, SpaceRegistry } from './Registries';
 import { CellCoordinator } from './CellCordinator';
 import { SpaceCoordinator } from './SpaceCoordinator';
+import { compareFractionalIndex, generateEvenlySpacedKeys, generateKeyBetween, generateNKeysBetween } from './FractionalIndex';
 import { v4 as uuidv4 } from 'uuid';
 
+export interface TableDataListeners {
+  onCellValueChange?: (rowId: RowId, key: string, oldValue: unknown, newValue: unknown) => void;
+  onDataChange?: (data: unknown[]) => void;
+}
+
 export class TableCore {
   private cellCommandRegistry: CellCommandRegistry;
   private rowCommandRegistry: RowCommandRegistry;
   private spaceCommandRegistry: SpaceCommandRegistry;
   private pluginManager: PluginManager;
+  private commandBatcher: CommandBatcher;
   private cellRegistry: CellRegistry;
   private rowRegistry: RowRegistry<any>;
   private spaceRegistry: SpaceRegistry;
   private cellCoordinator: CellCoordinator;
   private spaceCoordinator: SpaceCoordinator;
+  private dataListeners: TableDataListeners = {};
+  private commandListeners = new Set<CommandListener>();
+  private isReconciling = false;
+  private columnKeys: string[] = [];
+  private columnConfig = new Map<string, ColumnConfig>();
+  private foldedColumns = new Set<string>();
+  private layoutListeners = new Set<() => void>();
 
   constructor() {
     this.cellCommandRegistry = new CellCommandRegistry();
     this.rowCommandRegistry = new RowCommandRegistry();
     this.spaceCommandRegistry = new SpaceCommandRegistry();
     this.pluginManager = new PluginManager();
-    this.cellRegistry = CellRegistry.getInstance();
-    this.rowRegistry = RowRegistry.getInstance();
-    this.spaceRegistry = SpaceRegistry.getInstance();
-    this.cellCoordinator = CellCoordinator.getInstance(this.cellRegistry);
-    this.spaceCoordinator = SpaceCoordinator.getInstance(this.spaceRegistry);
+
+    // One batcher shared by all registries so a batch can mix command kinds
+    this.commandBatcher = new CommandBatcher();
+    this.cellCommandRegistry.setBatcher(this.commandBatcher);
+    this.rowCommandRegistry.setBatcher(this.commandBatcher);
+    this.spaceCommandRegistry.setBatcher(this.commandBatcher);
+
+    // Registries and coordinators are owned by this table instance so that
+    // several grids on one page never share rows, cells or spaces
+    this.cellRegistry = new CellRegistry();
+    this.rowRegistry = new RowRegistry();
+    this.spaceRegistry = new SpaceRegistry();
+    this.cellCoordinator = new CellCoordinator(this.cellRegistry, this.rowRegistry);
+    this.spaceCoordinator = new SpaceCoordinator(this.spaceRegistry);
+
+    // Every dispatch outcome feeds the public command event stream
+    this.cellCommandRegistry.setObserver((command, result) => {
+      this.writeUndeliveredValue(command, result);
+      this.emitCommandEvent({ type: 'cell', command, result });
+    });
+    this.rowCommandRegistry.setObserver((command, result) => {
+      this.removeDestroyedRow(command, result);
+      this.emitCommandEvent({ type: 'row', command, result });
+    });
+    this.spaceCommandRegistry.setObserver((command, result) => this.emitCommandEvent({ type: 'space', command, result }));
   }
 
   // Factory for plugin-specific APIs with bound context
@@ -72,15 +114,32 @@ export class TableCore {
         targetSpaceId: SpaceId,
         command: Omit<SpaceCommand<K>, 'targetSpaceId' | 'originPlugin' | 'timestamp'>
       ) => {
-        const contextCommand: SpaceCommand<K> = {
+        const contextCommand = {
           ...command,
           targetSpaceId,
           originPlugin: pluginName,
-          timestamp: command.timestamp || Date.now()
-        };
+          timestamp: Date.now()
+        } as SpaceCommand<K>;
         this.spaceCommandRegistry.dispatch(contextCommand);
       },
 
+      createCellCommands: (commands) => {
+        this.batch(() => {
+          commands.forEach(({ targetId, command }) => {
+            this.cellCommandRegistry.dispatch({
+              ...command,
+              targetId,
+              originPlugin: pluginName,
+              timestamp: Date.now()
+            } as CellCommand);
+          });
+        });
+      },
+
+      batch: (fn: () => void) => {
+        this.batch(fn);
+      },
+
       getCell: (cellId: CellId) => {
         // Access spatial coordinates of the cell
         return this.cellRegistry.get(cellId);
@@ -92,24 +151,18 @@ export class TableCore {
       },
 
       compareVertical: (cellId1: CellId, cellId2: CellId): import('./BasePlugin').VerticalComparison => {
-        // Parse coordinates from cell UUIDs: "colIndex-rowIndex-uuid"
-        const parseCoords = (cellId: CellId) => {
-          const parts = cellId.split('-');
-          return {
-            col: parseInt(parts[0]),
-            row: parts[1] // Keep as string for fractional indices
-          };
-        };
+        // Compare the live fractional indices of the cells' rows
+        const row1 = this.rowRegistry.get(this.cellRegistry.get(cellId1)?.rowId ?? '');
+        const row2 = this.rowRegistry.get(this.cellRegistry.get(cellId2)?.rowId ?? '');
+        if (!row1 || !row2) return null;
 
-        const coords1 = parseCoords(cellId1);
-        const coords2 = parseCoords(cellId2);
+        const order = compareFractionalIndex(row1.fractionalIndex, row2.fractionalIndex);
 
         // Same row - no vertical relationship
-        if (coords1.row === coords2.row) return null;
+        if (order === 0) return null;
 
-        // Bottom-up indexing with fractional indices: higher string value = higher position (top)
-        // String comparison works correctly with padded fractional indices
-        if (coords1.row > coords2.row) {
+        // Bottom-up indexing with fractional indices: higher key = higher position (top)
+        if (order > 0) {
           return { top: cellId1, bottom: cellId2 };
         } else {
           return { top: cellId2, bottom: cellId1 };
@@ -117,27 +170,38 @@ export class TableCore {
       },
 
       compareHorizontal: (cellId1: CellId, cellId2: CellId): import('./BasePlugin').HorizontalComparison => {
-        // Parse coordinates from cell UUIDs: "colIndex-rowIndex-uuid"
-        const parseCoords = (cellId: CellId) => {
-          const parts = cellId.split('-');
-          return {
-            col: parseInt(parts[0]),
-            row: parseInt(parts[1])
-          };
-        };
-
-        const coords1 = parseCoords(cellId1);
-        const coords2 = parseCoords(cellId2);
+        const cell1 = this.cellRegistry.get(cellId1);
+        const cell2 = this.cellRegistry.get(cellId2);
 
         // Different rows - no horizontal relationship
-        if (coords1.row !== coords2.row) return null;
+        if (!cell1 || !cell2 || cell1.rowId !== cell2.rowId) return null;
 
-        // Return with left cell first, right cell second
-        if (coords1.col < coords2.col) {
-          return { left: cellId1, right: cellId2 };
-        } else {
-          return { left: cellId2, right: cellId1 };
+        // Walk right along the spatial links from the first cell
+        let current = cell1.right;
+        while (current) {
+          if (current === cellId2) {
+            return { left: cellId1, right: cellId2 };
+          }
+          current = this.cellRegistry.get(current)?.right ?? null;
+        }
+
+        // Not linked (links not set up yet, folded column) - fall back to the row's cell order
+        const row = this.rowRegistry.get(cell1.rowId);
+        if (row) {
+          return row.cells.indexOf(cellId1) < row.cells.indexOf(cellId2)
+            ? { left: cellId1, right: cellId2 }
+            : { left: cellId2, right: cellId1 };
         }
+
+        return { left: cellId2, right: cellId1 };
+      },
+
+      setRowValue: (rowId: RowId, columnKey: string, value: unknown) => {
+        this.setRowValue(rowId, columnKey, value, pluginName);
+      },
+
+      scrollCellIntoView: (cellId: CellId) => {
+        this.scrollCellIntoView(cellId, pluginName);
       },
 
       deleteRow: (rowId: RowId) => {
@@ -145,11 +209,39 @@ export class TableCore {
         this.destroyRow(rowId);
       },
 
+      moveRow: (rowId: RowId, position: RowMovePosition) => {
+        return this.moveRow(rowId, position, pluginName);
+      },
+
       getRowIds: (): RowId[] => {
         // Get all row IDs from registry
         return this.rowRegistry.list();
       },
 
+      getRowIdsInSpace: (spaceId: SpaceId): RowId[] => {
+        return this.getRowIdsInSpaceSorted(spaceId);
+      },
+
+      getColumns: () => {
+        return this.getColumns();
+      },
+
+      getColumnConfig: (columnKey: string) => {
+        return this.columnConfig.get(columnKey);
+      },
+
+      refreshHeader: () => {
+        this.notifyLayoutChange();
+      },
+
+      setColumnFolded: (columnKey: string, folded: boolean) => {
+        this.setColumnFolded(columnKey, folded);
+      },
+
+      isColumnFolded: (columnKey: string) => {
+        return this.isColumnFolded(columnKey);
+      },
+
       getSpaceAbove: (spaceId: SpaceId) => {
         return this.spaceCoordinator.getSpaceAbove(spaceId);
       },
@@ -249,7 +341,7 @@ export class TableCore {
       console.log(`TableCore: Creating space and setting APIs for plugin ${plugin.name}`);
       
       // Create a space for this plugin
-      const spaceId = this.spaceCoordinator.createPluginSpace(plugin.name);
+      const spaceId = this.spaceCoordinator.createPluginSpace(plugin.name, plugin.stickySpace);
       console.log(`TableCore: Created space ${spaceId} for plugin ${plugin.name}`);
       
       // Create context-aware APIs for this specific plugin
@@ -270,6 +362,7 @@ export class TableCore {
     this.cellCommandRegistry.setPlugins(orderedPlugins);
     this.rowCommandRegistry.setPlugins(orderedPlugins);
     this.spaceCommandRegistry.setPlugins(orderedPlugins);
+    this.commandBatcher.setPlugins(orderedPlugins);
 
     // FINALLY: Initialize plugins after all APIs are set and registries connected
     console.log('TableCore: Calling plugin manager initializePlugins');
@@ -280,6 +373,43 @@ export class TableCore {
   // Cleanup
   destroy(): void {
     this.pluginManager.destroy();
+
+    // Tear down everything this table owns
+    this.cellCommandRegistry.clear();
+    this.rowCommandRegistry.clear();
+    this.spaceCommandRegistry.clear();
+    this.cellRegistry.clear();
+    this.rowRegistry.clear();
+    this.spaceRegistry.clear();
+    this.dataListeners = {};
+    this.commandListeners.clear();
+    this.layoutListeners.clear();
+  }
+
+  // Listen to every command once it has been delivered or blocked.
+  // Returns an unsubscribe function.
+  subscribe(listener: CommandListener): () => void {
+    this.commandListeners.add(listener);
+    return () => {
+      this.commandListeners.delete(listener);
+    };
+  }
+
+  private emitCommandEvent(event: CommandEvent): void {
+    this.commandListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Error in command listener for "${event.command.name}":`, error);
+      }
+    });
+  }
+
+  // Transactions: commands dispatched inside fn are queued and delivered together
+  // once fn returns. Plugins see the batch through onBeforeBatch/onAfterBatch,
+  // and nothing is dispatched if fn throws.
+  batch(fn: () => void): void {
+    this.commandBatcher.run(fn);
   }
 
   // Command dispatching methods
@@ -400,6 +530,42 @@ export class TableCore {
     this.dispatchCellCommand(command);
   }
 
+  // Cell components register their handler when they mount. Plugins are told
+  // about new mounts so they can re-send state (focus, selection) to cells
+  // that were unmounted, e.g. scrolled out of a virtualized space.
+  mountCell(cellId: CellId, handler: CellCommandHandeler): void {
+    const isNew = !this.cellCommandRegistry.has(cellId);
+    this.cellCommandRegistry.register(cellId, handler);
+    if (!isNew) return;
+
+    this.pluginManager.getPluginsInOrder().forEach(plugin => {
+      try {
+        plugin.onCellMount?.(cellId);
+      } catch (error) {
+        console.error(`Error in plugin ${plugin.name} onCellMount:`, error);
+      }
+    });
+  }
+
+  unmountCell(cellId: CellId): void {
+    this.cellCommandRegistry.unregister(cellId);
+  }
+
+  // Ask the space that holds the cell to scroll it into view
+  scrollCellIntoView(cellId: CellId, originPlugin?: string): void {
+    const cell = this.cellRegistry.get(cellId);
+    const row = cell ? this.rowRegistry.get(cell.rowId) : undefined;
+    if (!cell || !row) return;
+
+    this.dispatchSpaceCommand({
+      name: 'scrollIntoView',
+      targetSpaceId: row.spaceId,
+      payload: { rowId: cell.rowId, columnKey: cell.columnKey },
+      originPlugin,
+      timestamp: Date.now()
+    });
+  }
+
   // Convenience methods for common commands
   focusCell(cellId: CellId): void {
     this.dispatchCellCommand({
@@ -425,10 +591,30 @@ export class TableCore {
     });
   }
 
-  editCell(cellId: CellId): void {
+  // Start editing a cell, with `text` as the editor's content instead of the value
+  editCell(cellId: CellId, text?: string): void {
     this.dispatchCellCommand({
       name: 'edit',
       targetId: cellId,
+      payload: { text },
+      timestamp: Date.now()
+    });
+  }
+
+  // Called by cells with a value they accepted, from an edit or an updateValue
+  // command, already normalized to the cell's type. Only these values are
+  // written into the row data.
+  commitCellValue(cellId: CellId, value: unknown): void {
+    this.writeCellValue(cellId, value, this.commandBatcher.getDeliveringBatchId());
+  }
+
+  // Called by cells that reject input. The error command runs through the
+  // plugins like any other and comes back to the cell.
+  reportCellError(cellId: CellId, error: unknown): void {
+    this.dispatchCellCommand({
+      name: 'error',
+      targetId: cellId,
+      payload: { error },
       timestamp: Date.now()
     });
   }
@@ -467,58 +653,315 @@ export class TableCore {
     return this.cellRegistry;
   }
 
-  // Fractional row indexing system
-  generateFractionalIndex(belowIndex?: string, aboveIndex?: string): string {
-    const PADDING_LENGTH = 5;
-    const BASE_INCREMENT = 10000;
+  // Columns every row has a cell for, left to right. Cells are created here
+  // with their rows rather than by GridRow, so the spatial graph is complete
+  // whether or not a row is mounted.
+  setColumns(columnKeys: string[]): void {
+    const unchanged = columnKeys.length === this.columnKeys.length &&
+      columnKeys.every((key, index) => this.columnKeys[index] === key);
+    if (unchanged) return;
 
-    if (!belowIndex && !aboveIndex) {
-      // First row in empty space
-      return "50000";
-    }
+    this.columnKeys = [...columnKeys];
+
+    const spaceIds = new Set<SpaceId>();
+    this.rowRegistry.list().forEach(rowId => {
+      this.syncRowCells(rowId);
+      spaceIds.add(this.rowRegistry.get(rowId)!.spaceId);
+    });
+    spaceIds.forEach(spaceId => this.relinkSpace(spaceId));
+
+    // Rows rendered before this point have no cells for new columns
+    this.notifyLayoutChange();
+  }
+
+  getColumns(): string[] {
+    return [...this.columnKeys];
+  }
+
+  // Column configs by key, so plugins can read options such as `sortable`
+  setColumnConfig<TData>(config: TableConfig<TData>): void {
+    this.columnConfig = new Map(config.map(column => [String(column.key), column]));
+  }
 
-    if (!belowIndex) {
-      // Insert below the bottom-most row
-      const above = parseInt(aboveIndex!);
-      const newIndex = Math.max(above - BASE_INCREMENT, 1000);
-      return newIndex.toString().padStart(PADDING_LENGTH, '0');
+  getColumnConfig(columnKey: string): ColumnConfig | undefined {
+    return this.columnConfig.get(columnKey);
+  }
+
+  // Collapse a `foldable` column into a strip, or expand it again. Folded
+  // columns keep their cells, which are left out of the left/right links.
+  setColumnFolded(columnKey: string, folded: boolean): void {
+    if (folded && !this.columnConfig.get(columnKey)?.foldable) {
+      console.warn(`TableCore: Column ${columnKey} is not foldable`);
+      return;
     }
+    if (folded === this.foldedColumns.has(columnKey)) return;
 
-    if (!aboveIndex) {
-      // Insert above the top-most row
-      const below = parseInt(belowIndex!);
-      const newIndex = below + BASE_INCREMENT;
-      return newIndex.toString().padStart(PADDING_LENGTH, '0');
+    if (folded) {
+      this.foldedColumns.add(columnKey);
+    } else {
+      this.foldedColumns.delete(columnKey);
     }
+    this.rowRegistry.list().forEach(rowId => this.linkRowCells(rowId));
+
+    this.pluginManager.getPluginsInOrder().forEach(plugin => {
+      try {
+        plugin.onColumnFold?.(columnKey, folded);
+      } catch (error) {
+        console.error(`Error in plugin ${plugin.name} onColumnFold:`, error);
+      }
+    });
+    this.notifyLayoutChange();
+  }
+
+  isColumnFolded(columnKey: string): boolean {
+    return this.foldedColumns.has(columnKey);
+  }
+
+  // Column headers are rendered by the grid, plugins react to clicks on them
+  // and ask for a re-render when what they draw into a header changed
+  clickHeader(columnKey: string, event: MouseEvent): void {
+    this.pluginManager.getPluginsInOrder().forEach(plugin => {
+      try {
+        plugin.onHeaderClick?.(columnKey, event);
+      } catch (error) {
+        console.error(`Error in plugin ${plugin.name} onHeaderClick:`, error);
+      }
+    });
+  }
+
+  // Listen for changes that need the header and rows re-rendered (plugin
+  // header state, folded columns). Returns an unsubscribe function.
+  subscribeLayout(listener: () => void): () => void {
+    this.layoutListeners.add(listener);
+    return () => {
+      this.layoutListeners.delete(listener);
+    };
+  }
+
+  notifyLayoutChange(): void {
+    this.layoutListeners.forEach(listener => listener());
+  }
+
+  // Cell of a row for a column
+  getCellId(rowId: RowId, columnKey: string): CellId | undefined {
+    return this.rowRegistry.get(rowId)?.cells.find(cellId => this.cellRegistry.get(cellId)?.columnKey === columnKey);
+  }
+
+  // Give a row one cell per column, in column order and linked left to right.
+  // Vertical links are left to relinkSpace / linkRowToNeighbors.
+  private syncRowCells(rowId: RowId): void {
+    const row = this.rowRegistry.get(rowId);
+    if (!row) return;
+
+    const existing = new Map<string, CellId>();
+    row.cells.forEach(cellId => {
+      const cell = this.cellRegistry.get(cellId);
+      if (cell) existing.set(cell.columnKey, cellId);
+    });
+
+    const cells = this.columnKeys.map(columnKey => {
+      const cellId = existing.get(columnKey) ?? `${rowId}:${columnKey}`;
+      if (!this.cellRegistry.has(cellId)) {
+        this.cellRegistry.register(cellId, { rowId, columnKey, top: null, bottom: null, left: null, right: null });
+      }
+      return cellId;
+    });
+
+    // Cells of columns that are gone
+    row.cells.filter(cellId => !cells.includes(cellId)).forEach(cellId => {
+      this.cellCommandRegistry.unregister(cellId);
+      this.cellRegistry.unregister(cellId);
+    });
+
+    row.cells = cells;
+    this.rowRegistry.register(rowId, row);
+    this.linkRowCells(rowId);
+  }
+
+  // Link a row's cells left to right, jumping over folded columns
+  private linkRowCells(rowId: RowId): void {
+    const row = this.rowRegistry.get(rowId);
+    if (!row) return;
+
+    const linked = row.cells.filter(cellId => {
+      const cell = this.cellRegistry.get(cellId);
+      if (cell && this.foldedColumns.has(cell.columnKey)) {
+        cell.left = null;
+        cell.right = null;
+        return false;
+      }
+      return cell !== undefined;
+    });
+
+    linked.forEach((cellId, index) => {
+      const cell = this.cellRegistry.get(cellId)!;
+      cell.left = index > 0 ? linked[index - 1] : null;
+      cell.right = index < linked.length - 1 ? linked[index + 1] : null;
+    });
+  }
 
-    // Insert between two existing rows
-    const below = parseInt(belowIndex);
-    const above = parseInt(aboveIndex);
+  // Link a new row's cells to the rows above and below it
+  private linkRowToNeighbors(rowId: RowId): void {
+    const row = this.rowRegistry.get(rowId);
+    if (!row) return;
 
-    if (above - below <= 1) {
-      // No space left, need to use larger numbers or decimals
-      // For now, just add to the above index
-      console.warn('Fractional index space exhausted, using incremental approach');
-      return (above + 1000).toString().padStart(PADDING_LENGTH, '0');
+    const topRow = row.top ? this.rowRegistry.get(row.top) : undefined;
+    const bottomRow = row.bottom ? this.rowRegistry.get(row.bottom) : undefined;
+
+    if (topRow) {
+      this.cellCoordinator.linkRowsCells(topRow.cells, row.cells);
+    }
+    if (bottomRow) {
+      this.cellCoordinator.linkRowsCells(row.cells, bottomRow.cells);
     }
+  }
 
-    const middle = Math.floor((below + above) / 2);
-    return middle.toString().padStart(PADDING_LENGTH, '0');
+  // Fractional row indexing system
+  // Higher keys sit higher in the space (bottom-up indexing)
+  generateFractionalIndex(belowIndex?: string, aboveIndex?: string): string {
+    return generateKeyBetween(belowIndex ?? null, aboveIndex ?? null);
   }
 
   // Generate initial fractional indices for table space rows
   generateInitialFractionalIndices(count: number): string[] {
-    const indices: string[] = [];
-    const BASE_INCREMENT = 10000;
-
-    for (let i = 0; i < count; i++) {
-      // Bottom-up: first item (i=0) gets highest visual position
-      const visualPosition = count - 1 - i; // Reverse for bottom-up
-      const baseIndex = (visualPosition + 1) * BASE_INCREMENT;
-      indices.push(baseIndex.toString().padStart(5, '0'));
+    // Bottom-up: first item (i=0) gets highest visual position
+    return generateEvenlySpacedKeys(count).reverse();
+  }
+
+  // Reassign evenly spaced keys to every row of a space, keeping their order.
+  // Keys grow by a digit whenever rows are squeezed between close neighbours,
+  // so this is worth calling after heavy reordering.
+  rebalanceSpace(spaceId: SpaceId): void {
+    const rowIds = this.getRowIdsInSpaceSorted(spaceId);
+    const indices = this.generateInitialFractionalIndices(rowIds.length);
+
+    rowIds.forEach((rowId, index) => {
+      const row = this.rowRegistry.get(rowId)!;
+      row.fractionalIndex = indices[index];
+      this.rowRegistry.register(rowId, row);
+    });
+  }
+
+  // Hide rows of a space (e.g. filtered out) or show them again. Hidden rows
+  // stay in the registry with their cells and data, but are not rendered and
+  // are skipped by the row and cell links. Rows not listed are shown.
+  setHiddenRows(spaceId: SpaceId, rowIds: RowId[]): void {
+    const hidden = new Set(rowIds);
+    this.getRowIdsInSpaceSorted(spaceId).forEach(rowId => {
+      const row = this.rowRegistry.get(rowId)!;
+      row.hidden = hidden.has(rowId);
+      this.rowRegistry.register(rowId, row);
+    });
+
+    this.relinkSpace(spaceId);
+  }
+
+  // Put the rows of a space in the given order (top to bottom). Rows keep
+  // their cells, only fractional indices and links are rewritten, so mounted
+  // rows move instead of remounting. Rows missing from rowIds go last.
+  reorderSpace(spaceId: SpaceId, rowIds: RowId[]): void {
+    const currentIds = this.getRowIdsInSpaceSorted(spaceId);
+    const wanted = rowIds.filter(rowId => this.rowRegistry.get(rowId)?.spaceId === spaceId);
+    const included = new Set(wanted);
+    const order = [...wanted, ...currentIds.filter(rowId => !included.has(rowId))];
+
+    const indices = this.generateInitialFractionalIndices(order.length);
+    order.forEach((rowId, index) => {
+      const row = this.rowRegistry.get(rowId)!;
+      row.fractionalIndex = indices[index];
+      this.rowRegistry.register(rowId, row);
+    });
+
+    this.relinkSpace(spaceId);
+    this.notifyDataChange(spaceId);
+  }
+
+  // Move a row next to another row or to an edge of a space, possibly into
+  // another space. The row keeps its ID, cells and data: it gets a fractional
+  // index between its new neighbours, and both spaces are relinked. The row
+  // is then told with linkToTop / linkToBottom. Returns false if nothing moved.
+  moveRow(rowId: RowId, position: RowMovePosition, originPlugin?: string): boolean {
+    const row = this.rowRegistry.get(rowId);
+    if (!row) {
+      console.warn(`TableCore: Row ${rowId} not found for move`);
+      return false;
+    }
+
+    // Resolve the destination space and the rows the moved row goes between
+    let spaceId: SpaceId;
+    let above: RowId | null;
+    let below: RowId | null;
+    if ('spaceId' in position) {
+      if (!this.spaceRegistry.has(position.spaceId)) {
+        console.warn(`TableCore: Space ${position.spaceId} not found for move`);
+        return false;
+      }
+      spaceId = position.spaceId;
+      const others = this.getRowIdsInSpaceSorted(spaceId).filter(id => id !== rowId);
+      above = position.position === 'top' ? null : others[others.length - 1] ?? null;
+      below = position.position === 'top' ? others[0] ?? null : null;
+    } else {
+      const targetRowId = 'before' in position ? position.before : position.after;
+      const target = this.rowRegistry.get(targetRowId);
+      if (!target || targetRowId === rowId) {
+        console.warn(`TableCore: Cannot move row ${rowId} next to ${targetRowId}`);
+        return false;
+      }
+      spaceId = target.spaceId;
+      const others = this.getRowIdsInSpaceSorted(spaceId).filter(id => id !== rowId);
+      const index = others.indexOf(targetRowId);
+      above = 'before' in position ? others[index - 1] ?? null : targetRowId;
+      below = 'before' in position ? targetRowId : others[index + 1] ?? null;
+    }
+
+    // Neighbours before the move, hidden rows included
+    const currentIds = this.getRowIdsInSpaceSorted(row.spaceId);
+    const currentIndex = currentIds.indexOf(rowId);
+    const from = {
+      spaceId: row.spaceId,
+      top: currentIds[currentIndex - 1] ?? null,
+      bottom: currentIds[currentIndex + 1] ?? null
+    };
+    if (from.spaceId === spaceId && from.top === above && from.bottom === below) {
+      return false;
+    }
+
+    row.fractionalIndex = this.generateFractionalIndex(
+      below ? this.rowRegistry.get(below)!.fractionalIndex : undefined,
+      above ? this.rowRegistry.get(above)!.fractionalIndex : undefined
+    );
+    row.spaceId = spaceId;
+    this.rowRegistry.register(rowId, row);
+
+    this.relinkSpace(spaceId);
+    if (from.spaceId !== spaceId) {
+      this.relinkSpace(from.spaceId);
+    }
+
+    if ('before' in position || ('spaceId' in position && position.position === 'bottom')) {
+      this.dispatchRowCommand({
+        name: 'linkToBottom',
+        targetId: rowId,
+        payload: { targetRowId: 'before' in position ? position.before : null, spaceId, from },
+        originPlugin,
+        timestamp: Date.now()
+      });
+    } else {
+      this.dispatchRowCommand({
+        name: 'linkToTop',
+        targetId: rowId,
+        payload: { targetRowId: 'after' in position ? position.after : null, spaceId, from },
+        originPlugin,
+        timestamp: Date.now()
+      });
+    }
+
+    this.notifyDataChange(spaceId);
+    if (from.spaceId !== spaceId) {
+      this.notifyDataChange(from.spaceId);
     }
 
-    return indices;
+    return true;
   }
 
   getSpaceCoordinator(): SpaceCoordinator {
@@ -533,35 +976,285 @@ export class TableCore {
     return this.pluginManager;
   }
 
-  // Create a new row in a specific space
-  createRowInSpace<TData>(
-    spaceId: SpaceId,
-    rowData: TData,
-    position: 'top' | 'bottom' | { after: RowId } = 'bottom'
-  ): RowId {
-    console.log(`TableCore: Creating row in space ${spaceId} at position:`, position);
+  // Data write-back
+  setDataListeners(listeners: TableDataListeners): void {
+    this.dataListeners = listeners;
+  }
 
-    // 1. Generate new row ID and calculate fractional index
-    const newRowId = uuidv4();
-    const newFractionalIndex = this.calculateFractionalIndexForSpace(spaceId, position);
+  // Row data of a space in visual order (top to bottom)
+  getSpaceData(spaceId: SpaceId): unknown[] {
+    return this.getRowIdsInSpaceSorted(spaceId).map(rowId => this.rowRegistry.get(rowId)!.data);
+  }
 
-    console.log(`TableCore: Generated rowId ${newRowId} with fractional index ${newFractionalIndex}`);
+  // A cell that is not mounted (virtualized or folded) cannot check a value,
+  // so an updateValue that passed the plugins but reached no cell is written as is
+  private writeUndeliveredValue(command: CellCommand, result: CommandResult): void {
+    if (command.name !== 'updateValue' || !command.targetId || result.blocked || result.delivered) return;
+    this.writeCellValue(command.targetId, command.payload.value, command.batchId);
+  }
+
+  private writeCellValue(cellId: CellId, value: unknown, batchId?: string): void {
+    const cell = this.cellRegistry.get(cellId);
+    if (!cell) return;
+    this.writeRowValue(cell.rowId, cell.columnKey, value, batchId);
+  }
+
+  private writeRowValue(rowId: RowId, columnKey: string, value: unknown, batchId?: string): void {
+    const row = this.rowRegistry.get(rowId);
+    if (!row) return;
+
+    const oldValue = row.data?.[columnKey];
+    if (Object.is(oldValue, value)) return;
+
+    // Never mutate the consumer's objects - controlled parents compare by reference
+    row.data = { ...row.data, [columnKey]: value };
+    this.rowRegistry.register(rowId, row);
+
+    this.dataListeners.onCellValueChange?.(rowId, columnKey, oldValue, value);
+    this.notifyDataChange(row.spaceId);
+    // Values coming from the parent are not changes made in the grid
+    if (!this.isReconciling) {
+      this.notifyCellValueChange({ rowId, columnKey, oldValue, newValue: value, batchId });
+    }
+  }
+
+  private notifyCellValueChange(change: CellValueChange): void {
+    this.pluginManager.getPluginsInOrder().forEach(plugin => {
+      try {
+        plugin.onCellValueChange?.(change);
+      } catch (error) {
+        console.error(`Error in plugin ${plugin.name} onCellValueChange:`, error);
+      }
+    });
+  }
+
+  // Table space changes made by the grid itself are reported to the parent.
+  // Changes coming from the parent (reconciliation) are not echoed back.
+  private notifyDataChange(spaceId: SpaceId): void {
+    if (spaceId === 'table-space' && !this.isReconciling) {
+      this.dataListeners.onDataChange?.(this.getSpaceData('table-space'));
+    }
+  }
+
+  // Set a value by row and column. Goes through the cell as an updateValue
+  // command when the cell exists (the cell decides what is written), otherwise
+  // straight into the row data.
+  setRowValue(rowId: RowId, columnKey: string, value: unknown, originPlugin?: string): void {
+    const row = this.rowRegistry.get(rowId);
+    if (!row) return;
+
+    const cellId = row.cells.find(id => this.cellRegistry.get(id)?.columnKey === columnKey);
+    if (cellId) {
+      this.dispatchCellCommand({
+        name: 'updateValue',
+        targetId: cellId,
+        payload: { value },
+        originPlugin,
+        timestamp: Date.now()
+      });
+    } else {
+      // Inside a batch the value is written with the batch's commands
+      this.commandBatcher.defer(() => {
+        this.writeRowValue(rowId, columnKey, value, this.commandBatcher.getDeliveringBatchId());
+      });
+    }
+  }
+
+  // Replace a row's data and push the changed values to its cells
+  updateRowData(rowId: RowId, data: unknown): void {
+    const row = this.rowRegistry.get(rowId);
+    if (!row || row.data === data) return;
+
+    const previous = row.data;
+    row.data = data;
+    this.rowRegistry.register(rowId, row);
+
+    // Cells commit values equal to the new data, so nothing is written back
+    row.cells.forEach(cellId => {
+      const cell = this.cellRegistry.get(cellId);
+      if (cell && !Object.is(previous?.[cell.columnKey], row.data?.[cell.columnKey])) {
+        this.updateCellValue(cellId, row.data?.[cell.columnKey]);
+      }
+    });
+  }
+
+  // Bring a space in line with a new data array. Rows are matched by
+  // getRowId when given, by position otherwise. Missing rows are destroyed,
+  // new rows created and changed rows updated in place, so rows that did not
+  // change keep their cell state.
+  reconcileSpaceData<TData>(spaceId: SpaceId, data: TData[], getRowId?: (row: TData) => RowId): void {
+    this.isReconciling = true;
+    try {
+      this.applySpaceData(spaceId, data, getRowId);
+    } finally {
+      this.isReconciling = false;
+    }
+  }
+
+  private applySpaceData<TData>(spaceId: SpaceId, data: TData[], getRowId?: (row: TData) => RowId): void {
+    const currentIds = this.getRowIdsInSpaceSorted(spaceId);
+
+    // 1. Resolve the row ID of every data item
+    const entries: { rowId: RowId; data: TData; isNew: boolean }[] = [];
+    const seen = new Set<RowId>();
+    data.forEach((rowData, index) => {
+      const rowId = getRowId ? getRowId(rowData) : currentIds[index] ?? uuidv4();
+      if (seen.has(rowId)) {
+        console.warn(`TableCore: Duplicate row id ${rowId} in space ${spaceId}, skipping`);
+        return;
+      }
+      const existing = this.rowRegistry.get(rowId);
+      if (existing && existing.spaceId !== spaceId) {
+        console.warn(`TableCore: Row id ${rowId} already belongs to space ${existing.spaceId}, skipping`);
+        return;
+      }
+      seen.add(rowId);
+      entries.push({ rowId, data: rowData, isNew: !existing });
+    });
+
+    // 2. Destroy rows that are gone. Inside a batch they stay registered until
+    // it is delivered, so the steps below work from the diff, not the registry.
+    currentIds.filter(rowId => !seen.has(rowId)).forEach(rowId => this.destroyRow(rowId));
+
+    // 3. Update rows that are still there
+    entries.filter(entry => !entry.isNew).forEach(entry => this.updateRowData(entry.rowId, entry.data));
+
+    // 4. Work out fractional indices (entries are top to bottom)
+    const keptIds = entries.filter(entry => !entry.isNew).map(entry => entry.rowId);
+    const previousOrder = currentIds.filter(rowId => seen.has(rowId));
+    const orderKept = keptIds.every((rowId, index) => previousOrder[index] === rowId);
+
+    const indices: string[] = new Array(entries.length);
+    if (!orderKept || keptIds.length === 0) {
+      // Reordered or fresh space - respread the whole space
+      this.generateInitialFractionalIndices(entries.length).forEach((index, i) => { indices[i] = index; });
+    } else {
+      // Existing rows keep their keys, runs of new rows fill the gaps between them
+      let runStart = -1;
+      entries.forEach((entry, i) => {
+        if (entry.isNew) {
+          if (runStart === -1) runStart = i;
+        } else {
+          indices[i] = this.rowRegistry.get(entry.rowId)!.fractionalIndex;
+        }
+
+        const runEnds = runStart !== -1 && (i === entries.length - 1 || !entries[i + 1].isNew);
+        if (runEnds) {
+          const above = runStart > 0 ? indices[runStart - 1] : null;
+          const below = i < entries.length - 1 ? this.rowRegistry.get(entries[i + 1].rowId)!.fractionalIndex : null;
+          // Keys come back ascending, rows run top (highest) to bottom
+          generateNKeysBetween(below, above, i - runStart + 1)
+            .reverse()
+            .forEach((index, offset) => { indices[runStart + offset] = index; });
+          runStart = -1;
+        }
+      });
+    }
 
-    // 2. Create new row object
+    // 5. Create new rows and apply indices. Rows are linked all at once below.
+    entries.forEach((entry, i) => {
+      const row = this.rowRegistry.get(entry.rowId);
+      if (!entry.isNew && row) {
+        row.fractionalIndex = indices[i];
+        this.rowRegistry.register(entry.rowId, row);
+      } else {
+        this.addRow(spaceId, entry.rowId, entry.data, indices[i], false);
+      }
+    });
+
+    // 6. Fix row and cell links for the new order
+    this.relinkSpace(spaceId);
+  }
+
+  // Rebuild row links and vertical cell links of a space from its fractional order
+  relinkSpace(spaceId: SpaceId): void {
+    const allRowIds = this.getRowIdsInSpaceSorted(spaceId);
+    const rowIds = allRowIds.filter(rowId => !this.rowRegistry.get(rowId)!.hidden);
+
+    // Hidden rows are left out of the chain, navigation jumps over them
+    allRowIds.filter(rowId => this.rowRegistry.get(rowId)!.hidden).forEach(rowId => {
+      const row = this.rowRegistry.get(rowId)!;
+      row.top = null;
+      row.bottom = null;
+      row.cells.forEach(cellId => {
+        const cell = this.cellRegistry.get(cellId);
+        if (cell) {
+          cell.top = null;
+          cell.bottom = null;
+        }
+      });
+    });
+
+    rowIds.forEach((rowId, i) => {
+      const row = this.rowRegistry.get(rowId)!;
+      row.top = i > 0 ? rowIds[i - 1] : null;
+      row.bottom = i < rowIds.length - 1 ? rowIds[i + 1] : null;
+      this.rowRegistry.register(rowId, row);
+
+      if (i > 0) {
+        const topRow = this.rowRegistry.get(rowIds[i - 1])!;
+        this.cellCoordinator.linkRowsCells(topRow.cells, row.cells);
+      }
+    });
+
+    // Space edges point nowhere
+    const clearEdge = (rowId: RowId | undefined, edge: 'top' | 'bottom') => {
+      if (!rowId) return;
+      this.rowRegistry.get(rowId)!.cells.forEach(cellId => {
+        const cell = this.cellRegistry.get(cellId);
+        if (cell) cell[edge] = null;
+      });
+    };
+    clearEdge(rowIds[0], 'top');
+    clearEdge(rowIds[rowIds.length - 1], 'bottom');
+  }
+
+  // Register a new row with its cells. A single row is linked to its
+  // neighbors right away; reconciliation adds many and relinks the space once.
+  private addRow<TData>(spaceId: SpaceId, rowId: RowId, rowData: TData, fractionalIndex: string, linkNeighbors: boolean): void {
     const newRow: import('./types').Row<TData> = {
       spaceId,
       data: rowData,
-      cells: [], // Will be populated when GridRow renders
+      cells: [], // Populated by syncRowCells
       top: null,
       bottom: null,
-      fractionalIndex: newFractionalIndex
+      fractionalIndex
     };
 
-    // 3. Update spatial links with neighbors
-    this.updateSpatialLinks(newRowId, newRow);
+    // Links are worked out before the row is registered, so it does not find itself
+    if (linkNeighbors) {
+      this.updateSpatialLinks(rowId, newRow);
+    }
+
+    // Registering triggers the Space component re-render
+    this.rowRegistry.register(rowId, newRow);
+
+    // Create its cells and link them into the spatial graph
+    this.syncRowCells(rowId);
+    if (linkNeighbors) {
+      this.linkRowToNeighbors(rowId);
+    }
+
+    this.notifyDataChange(spaceId);
+  }
+
+  // Create a new row in a specific space
+  createRowInSpace<TData>(
+    spaceId: SpaceId,
+    rowData: TData,
+    position: 'top' | 'bottom' | { after: RowId } = 'bottom',
+    rowId?: RowId
+  ): RowId {
+    console.log(`TableCore: Creating row in space ${spaceId} at position:`, position);
+
+    // 1. Generate new row ID (unless the caller owns it) and calculate fractional index
+    const newRowId = rowId ?? uuidv4();
+    const newFractionalIndex = this.calculateFractionalIndexForSpace(spaceId, position);
+
+    console.log(`TableCore: Generated rowId ${newRowId} with fractional index ${newFractionalIndex}`);
 
-    // 4. Register the new row (this will trigger Space component re-render)
-    this.rowRegistry.register(newRowId, newRow);
+    // 2. Register the row with its cells, linked to its neighbors
+    this.addRow(spaceId, newRowId, rowData, newFractionalIndex, true);
 
     console.log(`TableCore: Successfully created row ${newRowId} in space ${spaceId}`);
     return newRowId;
@@ -572,39 +1265,51 @@ export class TableCore {
     return this.rowRegistry.list()
       .map(rowId => this.rowRegistry.get(rowId)!)
       .filter(row => row !== undefined)
-      .sort((a, b) => b.fractionalIndex.localeCompare(a.fractionalIndex)); // Descending (top to bottom)
+      .sort((a, b) => compareFractionalIndex(b.fractionalIndex, a.fractionalIndex)); // Descending (top to bottom)
+  }
+
+  private getRowsInSpaceSorted(spaceId: SpaceId): import('./types').Row<unknown>[] {
+    return this.getAllRowsSortedByIndex().filter(row => row.spaceId === spaceId);
+  }
+
+  // Row IDs of a space ordered top to bottom
+  getRowIdsInSpaceSorted(spaceId: SpaceId): RowId[] {
+    return this.rowRegistry.list()
+      .filter(rowId => this.rowRegistry.get(rowId)?.spaceId === spaceId)
+      .sort((a, b) => compareFractionalIndex(
+        this.rowRegistry.get(b)!.fractionalIndex,
+        this.rowRegistry.get(a)!.fractionalIndex
+      ));
+  }
+
+  private findRowId(row: import('./types').Row<unknown>): RowId | undefined {
+    return this.rowRegistry.list().find(id => this.rowRegistry.get(id) === row);
   }
 
   private findVisualNeighbors(spaceId: SpaceId, newFractionalIndex: string): { aboveRow: import('./types').Row<any> | null, belowRow: import('./types').Row<any> | null } {
-    const allRows = this.getAllRowsSortedByIndex();
+    const rowsInSpace = this.getRowsInSpaceSorted(spaceId);
 
     let aboveRow: import('./types').Row<any> | null = null;
     let belowRow: import('./types').Row<any> | null = null;
 
-    for (let i = 0; i < allRows.length; i++) {
-      const row = allRows[i];
+    for (const row of rowsInSpace) {
+      if (row.hidden) continue; // Hidden rows are not linked
 
-      if (row.fractionalIndex > newFractionalIndex) {
-        // This row is above our new row
+      if (compareFractionalIndex(row.fractionalIndex, newFractionalIndex) > 0) {
+        // Rows are sorted top to bottom, so the last higher row is the closest one above
         aboveRow = row;
-        belowRow = i > 0 ? allRows[i - 1] : null;
+      } else {
+        // First lower row is the closest one below
+        belowRow = row;
         break;
       }
     }
 
-    // If we didn't find any row above, new row goes at the very top
-    if (!aboveRow && allRows.length > 0) {
-      belowRow = allRows[allRows.length - 1]; // Last row becomes below
-    }
-
     return { aboveRow, belowRow };
   }
 
   private calculateFractionalIndexForSpace(spaceId: SpaceId, position: 'top' | 'bottom' | { after: RowId }): string {
-    const rowsInSpace = this.rowRegistry.list()
-      .map(rowId => this.rowRegistry.get(rowId)!)
-      .filter(row => row && row.spaceId === spaceId)
-      .sort((a, b) => b.fractionalIndex.localeCompare(a.fractionalIndex)); // Top to bottom
+    const rowsInSpace = this.getRowsInSpaceSorted(spaceId); // Top to bottom
 
     if (rowsInSpace.length === 0) {
       // Empty space - generate initial index
@@ -624,17 +1329,16 @@ export class TableCore {
       const targetRowId = position.after;
       const targetRow = this.rowRegistry.get(targetRowId);
 
-      if (!targetRow) {
-        console.warn(`TableCore: Target row ${targetRowId} not found for insertion`);
-        return this.generateFractionalIndex();
+      if (!targetRow || targetRow.spaceId !== spaceId) {
+        console.warn(`TableCore: Target row ${targetRowId} not found in space ${spaceId}, inserting at bottom`);
+        return this.calculateFractionalIndexForSpace(spaceId, 'bottom');
       }
 
       // Find the row below the target row (if any)
-      const allRows = this.getAllRowsSortedByIndex();
-      const targetIndex = allRows.findIndex(row => row === targetRow);
-      const belowRow = targetIndex < allRows.length - 1 ? allRows[targetIndex + 1] : null;
+      const targetIndex = rowsInSpace.indexOf(targetRow);
+      const belowRow = targetIndex < rowsInSpace.length - 1 ? rowsInSpace[targetIndex + 1] : null;
 
-      return this.generateFractionalIndex(targetRow.fractionalIndex, belowRow?.fractionalIndex);
+      return this.generateFractionalIndex(belowRow?.fractionalIndex, targetRow.fractionalIndex);
     }
   }
 
@@ -648,7 +1352,7 @@ export class TableCore {
     // Update neighbor links
     if (aboveRow) {
       // Find the actual row ID for aboveRow
-      const aboveRowId = this.rowRegistry.list().find(id => this.rowRegistry.get(id) === aboveRow);
+      const aboveRowId = this.findRowId(aboveRow);
       if (aboveRowId) {
         aboveRow.bottom = newRowId;
         this.rowRegistry.register(aboveRowId, aboveRow);
@@ -658,7 +1362,7 @@ export class TableCore {
 
     if (belowRow) {
       // Find the actual row ID for belowRow
-      const belowRowId = this.rowRegistry.list().find(id => this.rowRegistry.get(id) === belowRow);
+      const belowRowId = this.findRowId(belowRow);
       if (belowRowId) {
         belowRow.top = newRowId;
         this.rowRegistry.register(belowRowId, belowRow);
@@ -668,31 +1372,50 @@ export class TableCore {
   }
 
   // Row destruction with automatic cell cleanup
+  // Remove a row. The destroy command runs through the plugins first; the row
+  // is only removed once the command was not blocked (when a batch is
+  // delivered, inside a batch).
   destroyRow(rowId: RowId): void {
-    console.log(`TableCore: Destroying row ${rowId}`);
-    
     const row = this.rowRegistry.get(rowId);
     if (!row) {
       console.warn(`TableCore: Row ${rowId} not found for destruction`);
       return;
     }
-    
+
+    // The command carries the row, which may be gone by the time plugins look.
+    // Read now: inside a batch it is delivered after reconciliation ended.
+    this.dispatchRowCommand({
+      name: 'destroy',
+      targetId: rowId,
+      payload: { row, reconciled: this.isReconciling },
+      timestamp: Date.now()
+    });
+  }
+
+  private removeDestroyedRow(command: RowCommand, result: CommandResult): void {
+    if (command.name !== 'destroy' || result.blocked) return;
+
+    const rowId = command.targetId;
+    const row = this.rowRegistry.get(rowId);
+    if (!row) return;
+    console.log(`TableCore: Destroying row ${rowId}`);
+
     // 1. Clean up cell registrations (React handles component unmounting)
     row.cells.forEach(cellId => {
       this.cellCommandRegistry.unregister(cellId);
       this.cellRegistry.unregister(cellId);
       console.log(`TableCore: Cleaned up cell ${cellId} from destroyed row`);
     });
-    
+
     // 2. Fix spatial navigation - link neighboring rows
     const topRowId = row.top;
     const bottomRowId = row.bottom;
-    
+
     if (topRowId && bottomRowId) {
       console.log(`TableCore: Connecting top row ${topRowId} to bottom row ${bottomRowId}`);
       // Connect top row directly to bottom row
       this.cellCoordinator.linkRows(topRowId, bottomRowId);
-      
+
       // Link cells between top and bottom rows (skip destroyed row)
       const topRow = this.rowRegistry.get(topRowId);
       const bottomRow = this.rowRegistry.get(bottomRowId);
@@ -717,19 +1440,11 @@ export class TableCore {
         console.log(`TableCore: Cleared top reference from bottom row ${bottomRowId}`);
       }
     }
-    
-    // 3. Send destroy command to row component
-    this.dispatchRowCommand({
-      name: 'destroy',
-      targetId: rowId,
-      payload: {},
-      timestamp: Date.now()
-    });
-    
-    // 4. Clean up row registrations
+
+    // 3. Clean up row registrations
     this.rowCommandRegistry.unregister(rowId);
     this.rowRegistry.unregister(rowId);
-    
+    this.notifyDataChange(row.spaceId);
     console.log(`TableCore: Row ${rowId} destruction completed`);
   }
 
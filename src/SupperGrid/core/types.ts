@@ -1,3 +1,5 @@
+import type { ColumnWindow } from './ColumnLayout';
+
 type SpaceId = string;
 type RowId = string;
 type CellId = string;
@@ -5,6 +7,7 @@ type CellId = string;
 type Space = {
     name: string;
     owner?: string; // plugin name or table if no owner
+    sticky?: boolean; // Stays at the top of the scroll viewport, below the header
     top: SpaceId | null;
     bottom: SpaceId | null;
 };
@@ -16,10 +19,12 @@ type Row<T> = {
     top: RowId | null;
     bottom: RowId | null;
     fractionalIndex: string;
+    hidden?: boolean; // Filtered out: not rendered and skipped by the links
 };
 
 type Cell = {
     rowId: RowId;
+    columnKey: string; // key of the row data this cell reads and writes
     top: CellId | null;
     bottom: CellId | null;
     left: CellId | null;
@@ -61,12 +66,16 @@ export type {
 type CellCommandNoPayload =
   | { name: "focus" }
   | { name: "blur" }
-  | { name: "edit" }
-  | { name: "exitEdit" }
   | { name: "select" }
   | { name: "unselect" };
 
 type CellCommandWithPayload =
+  // text replaces the value in the editor (typing into a cell starts the edit)
+  | { name: "edit"; payload?: { text?: string } }
+  // Commits the edit; with cancel the value from before the edit stays. The
+  // cell answers through onResult whether it took the value, later if it
+  // checks it asynchronously. A cell that is not editing accepts.
+  | { name: "exitEdit"; payload?: { cancel?: boolean; onResult?: (accepted: boolean) => void } }
   | { name: "updateValue"; payload: { value: any } }
   | { name: "click"; payload: { event: MouseEvent } }
   | { name: "dblclick"; payload: { event: MouseEvent } }
@@ -85,18 +94,33 @@ type CellCommand =
       targetId?: CellId; // Optional - commands without targetId are plugin-only
       originPlugin?: string;
       timestamp?: number;
+      batchId?: string; // Set when dispatched inside a batch
     })
   | (CellCommandWithPayload & {
       targetId?: CellId; // Optional - commands without targetId are plugin-only
       originPlugin?: string;
       timestamp?: number;
+      batchId?: string; // Set when dispatched inside a batch
     });
 
+// Where a moved row goes: next to another row (in that row's space) or to an
+// edge of a space
+type RowMovePosition =
+  | { before: RowId }
+  | { after: RowId }
+  | { spaceId: SpaceId; position: 'top' | 'bottom' };
+
+// Space and neighbours of a row before it moved
+type RowMoveOrigin = { spaceId: SpaceId; top: RowId | null; bottom: RowId | null };
+
 type RowCommandMap = {
   delete: {};
-  destroy: {};
-  linkToTop: { targetRowId: RowId };
-  linkToBottom: { targetRowId: RowId };
+  // snapshot of the destroyed row; reconciled when the parent's data dropped it
+  destroy: { row?: Row<unknown>; reconciled?: boolean };
+  // The row was moved (TableCore.moveRow) right below targetRowId (linkToTop)
+  // or right above it (linkToBottom). null = top / bottom edge of spaceId
+  linkToTop: { targetRowId: RowId | null; spaceId: SpaceId; from: RowMoveOrigin };
+  linkToBottom: { targetRowId: RowId | null; spaceId: SpaceId; from: RowMoveOrigin };
   error: { error: any };
 };
 
@@ -106,11 +130,15 @@ type RowCommand<K extends keyof RowCommandMap = keyof RowCommandMap> = {
   targetId: RowId;
   originPlugin?: string;
   timestamp?: number;
+  batchId?: string; // Set when dispatched inside a batch
 };
 
 type SpaceCommandMap = {
-  createRow: { data: any; position?: 'top' | 'bottom' | { after: RowId } };
+  createRow: { data: any; position?: 'top' | 'bottom' | { after: RowId }; rowId?: RowId };
   deleteSpace: {};
+  scrollIntoView: { rowId: RowId; columnKey?: string };
+  reorderRows: { rowIds: RowId[] }; // new order, top to bottom
+  setHiddenRows: { rowIds: RowId[] }; // rows to hide, every other row is shown
 };
 
 type SpaceCommand<K extends keyof SpaceCommandMap = keyof SpaceCommandMap> = {
@@ -119,9 +147,51 @@ type SpaceCommand<K extends keyof SpaceCommandMap = keyof SpaceCommandMap> = {
   targetSpaceId: SpaceId;
   originPlugin?: string;
   timestamp?: number;
+  batchId?: string; // Set when dispatched inside a batch
+};
+
+// Outcome of a dispatch, reported to onAfter*Command hooks and subscribers
+type CommandResult = {
+  blocked: boolean;
+  blockedBy: string | null; // plugin whose onBefore hook returned false
+  delivered: boolean; // reached a registered cell/row/space handler
 };
 
-export type { CellCommand, RowCommand, RowCommandMap, SpaceCommand, SpaceCommandMap };
+type CommandEvent =
+  | { type: 'cell'; command: CellCommand; result: CommandResult }
+  | { type: 'row'; command: RowCommand; result: CommandResult }
+  | { type: 'space'; command: SpaceCommand; result: CommandResult };
+
+type CommandListener = (event: CommandEvent) => void;
+
+// A value written into row data: committed by a cell, or set on a cell that
+// was not mounted
+type CellValueChange = {
+  rowId: RowId;
+  columnKey: string;
+  oldValue: unknown;
+  newValue: unknown;
+  batchId?: string; // Set when written while a batch was delivered
+};
+
+// Commands collected by tableCore.batch() and delivered as one unit
+type BatchedCommand =
+  | { type: 'cell'; command: CellCommand }
+  | { type: 'row'; command: RowCommand }
+  | { type: 'space'; command: SpaceCommand };
+
+type CommandBatch = {
+  id: string;
+  commands: BatchedCommand[];
+};
+
+// Outcome of a batch, reported to onAfterBatch hooks
+type BatchResult = {
+  blocked: boolean;
+  blockedBy: string | null; // plugin whose onBeforeBatch hook returned false
+};
+
+export type { CellCommand, RowCommand, RowCommandMap, RowMovePosition, RowMoveOrigin, SpaceCommand, SpaceCommandMap, CommandResult, CommandEvent, CommandListener, CellValueChange, BatchedCommand, CommandBatch, BatchResult };
 
 
 type CellCommandHandeler = (command: CellCommand) => void;
@@ -144,10 +214,15 @@ export type { CellCommandHandeler, RowCommandHandler, SpaceCommandHandler, Table
 interface BaseCellConfig {
     header: string;
     width?: number | string;
+    minWidth?: number; // Resize limits in pixels
+    maxWidth?: number;
     sortable?: boolean;
     filterable?: boolean;
+    filterType?: 'text' | 'number' | 'values'; // Filter UI of the header, text by default
     foldable?: boolean;
     foldedColor?: string;
+    pinned?: 'left' | 'right'; // Stays in view while the other columns scroll horizontally
+    sortComparator?(a: unknown, b: unknown): number; // Ascending order of two cell values
     editable?: boolean;
     focusable?: boolean;
     selectable?: boolean;
@@ -159,7 +234,9 @@ type CellProps<T, C extends BaseCellConfig> = {
     value: T | null;
     config: C;
     registerCommands: (handler: CellCommandHandeler) => void;
-    // registerCommands, registerActions, executeAction for later
+    commitValue: (value: T | null) => void; // write an accepted value (edited or from updateValue) to the row data
+    reportError: (error: unknown) => void; // send this cell an error command, e.g. input that does not parse
+    // registerActions, executeAction for later
 };
 
 type CellComponent<T, C extends BaseCellConfig> = React.FC<CellProps<T | null, C>>;
@@ -173,6 +250,9 @@ type RowProps<T> = {
     columns: TableConfig<T>;
     rowIndex: number;
     isLastRow?: boolean;
+    height?: number; // Fixed height in pixels (virtualized spaces)
+    columnWindow?: ColumnWindow; // Mounted columns (virtualized grid)
+    pinnedOffsets?: Record<string, number>; // Sticky offsets of the pinned columns
 };
 
 export type { RowProps };
@@ -187,7 +267,35 @@ type TableConfig<TData> = Array<
 type TableProps<TData> = {
     data: TData[];
     config: TableConfig<TData>;
+    // Stable identity for rows. With it, every new `data` array is reconciled
+    // by key; without it (and uncontrolled), `data` only seeds the table
+    getRowId?: (row: TData) => RowId;
+    // Providing onDataChange makes the grid controlled: the parent owns `data`
+    // and the grid syncs to every new array it receives
+    onDataChange?: (data: TData[]) => void;
+    onCellValueChange?: (rowId: RowId, key: keyof TData, oldValue: unknown, newValue: unknown) => void;
+    // A column was resized from its header (drag or double-click to fit), width in pixels
+    onColumnResize?: (columnKey: string, width: number) => void;
+    // Columns were reordered by dragging a header, keys left to right
+    onColumnOrderChange?: (columnKeys: string[]) => void;
+    // Rows get a drag handle and can be dropped above or below other rows
+    draggableRows?: boolean;
+    // Giving the grid a height makes it a scroll container and virtualizes the
+    // table space: only rows in the viewport plus `overscan` rows are mounted.
+    // Virtualized rows all have `rowHeight` pixels.
+    // Columns are virtualized the same way, with `columnOverscan` extra columns
+    // mounted on each side of the viewport.
+    height?: number | string;
+    rowHeight?: number;
+    overscan?: number;
+    columnOverscan?: number;
     // plugins
 };
 
-export type { TableProps, TableConfig };
+// A column of any table, as the core and plugins read it
+type ColumnConfig = Partial<BaseCellConfig> & {
+    key: PropertyKey;
+    cell: unknown;
+} & Record<string, unknown>;
+
+export type { TableProps, TableConfig, ColumnConfig };
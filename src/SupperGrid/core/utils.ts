@@ -1,3 +1,9 @@
 export function cn(...classes: (string | undefined | false)[]): string {
   return classes.filter(Boolean).join(" ");
 }
+
+// Caret after the text, e.g. when an editor opens with a typed character
+export function placeCaretAtEnd(input: HTMLInputElement): void {
+  const end = input.value.length;
+  input.setSelectionRange(end, end);
+}
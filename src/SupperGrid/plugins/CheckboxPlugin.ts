@@ -0,0 +1,85 @@
+import { BasePlugin } from '../core/BasePlugin';
+import type { CellCommand, CellId } from '../core/types';
+import { FocusPlugin } from './FocusPlugin';
+import { SelectPlugin } from './SelectionPlugin';
+import { CheckboxCell } from '../cells/CheckboxCell';
+import { nextCheckboxValue, toCheckboxValue } from '../cells/checkboxValue';
+
+// Space toggles CheckboxCells: every selected one (SelectPlugin), or else the
+// focused one. Values go out as one batch of updateValue commands, so an
+// undo reverts them together.
+export class CheckboxPlugin extends BasePlugin {
+    readonly name = 'checkbox';
+    readonly version = '1.0.0';
+    readonly dependencies: string[] = ['selection', 'focus-plugin'];
+
+    private focusPlugin: FocusPlugin | null = null;
+    private selectPlugin: SelectPlugin | null = null;
+
+    onInit(): void {
+        this.focusPlugin = this.getPlugin<FocusPlugin>('focus-plugin');
+        this.selectPlugin = this.getPlugin<SelectPlugin>('selection');
+    }
+
+    onBeforeCellCommand(command: CellCommand): boolean | void {
+        // Keyboard shortcuts come as plugin-only keydown commands
+        if (command.name === 'keydown' && !command.targetId) {
+            this.handleKeyDown(command.payload.event);
+        }
+        return true;
+    }
+
+    onBeforeRowCommand(): boolean | void {
+        return true;
+    }
+
+    onBeforeSpaceCommand(): boolean | void {
+        return true;
+    }
+
+    // Toggle cells together: if they all show the same state each moves to the
+    // next one, otherwise they all become checked. Returns false if none of
+    // them is an editable checkbox.
+    public toggle(cellIds: CellId[]): boolean {
+        const tableAPIs = this.getTableAPIs();
+        const targets = cellIds.flatMap(cellId => {
+            const cell = tableAPIs.getCell(cellId);
+            const config = cell ? tableAPIs.getColumnConfig(cell.columnKey) : undefined;
+            if (!cell || config?.cell !== CheckboxCell || config.readOnly) return [];
+
+            const triState = config.triState === true;
+            const value = toCheckboxValue(tableAPIs.getRow(cell.rowId)?.data?.[cell.columnKey]) ?? null;
+            // Without tri-state, not set shows (and toggles) as unchecked
+            return [{ cellId, triState, value: triState ? value : value === true }];
+        });
+        if (targets.length === 0) return false;
+
+        const allSame = targets.every(target => target.value === targets[0].value);
+        tableAPIs.createCellCommands(targets.map(({ cellId, triState, value }) => ({
+            targetId: cellId,
+            command: {
+                name: 'updateValue',
+                payload: { value: allSame ? nextCheckboxValue(value, triState) : true }
+            }
+        })));
+        return true;
+    }
+
+    private handleKeyDown(e: KeyboardEvent) {
+        if (e.key !== ' ' || e.repeat || e.ctrlKey || e.metaKey || e.altKey || e.shiftKey) return;
+
+        // Leave Space to text inputs
+        const target = e.target as HTMLElement | null;
+        if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+            return;
+        }
+
+        const focused = this.focusPlugin?.getFocused();
+        const selected = this.selectPlugin?.getSelectedCells() ?? [];
+        // The selection wins when it holds checkboxes, otherwise the focused cell
+        if (this.toggle(selected) || (focused && this.toggle([focused]))) {
+            // Keep the page from scrolling
+            e.preventDefault();
+        }
+    }
+}
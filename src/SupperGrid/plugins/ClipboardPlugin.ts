@@ -0,0 +1,317 @@
+import { BasePlugin } from '../core/BasePlugin';
+import type { CellCommand, CellId, RowId } from '../core/types';
+import { FocusPlugin } from './FocusPlugin';
+import { SelectPlugin } from './SelectionPlugin';
+import { v4 as uuidv4 } from 'uuid';
+
+interface ClipboardPluginOptions {
+    // Create rows in the table space when a paste runs past the last row
+    createRows?: boolean;
+}
+
+// Quote a field the way spreadsheets do when it contains the delimiter, quotes or line breaks
+function formatField(value: unknown, delimiter: string): string {
+    if (value === null || value === undefined) return '';
+    const text = String(value);
+    if (text.includes(delimiter) || text.includes('"') || text.includes('\n') || text.includes('\r')) {
+        return `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+}
+
+// Tab separated if the text has tabs, comma separated if it spans several lines with commas,
+// otherwise one value per line
+function detectDelimiter(text: string): string | null {
+    if (text.includes('\t')) return '\t';
+    if (text.includes(',') && /\r?\n/.test(text)) return ',';
+    return null;
+}
+
+// Parse TSV/CSV text into rows of fields. Quoted fields may contain delimiters and line breaks.
+export function parseDelimited(text: string): string[][] {
+    // Spreadsheets end the copied block with a line break
+    const input = text.replace(/\r?\n$/, '');
+    if (input === '') return [];
+
+    const delimiter = detectDelimiter(input);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    row.push(field);
+    rows.push(row);
+    return rows;
+}
+
+export class ClipboardPlugin extends BasePlugin {
+    readonly name = 'clipboard';
+    readonly version = '1.0.0';
+    readonly dependencies: string[] = ['selection', 'focus-plugin'];
+
+    private focusPlugin: FocusPlugin | null = null;
+    private selectPlugin: SelectPlugin | null = null;
+    private createRows: boolean;
+    // Last copied text, used when the system clipboard is not available
+    private lastCopied: string | null = null;
+
+    constructor(options: ClipboardPluginOptions = {}) {
+        super();
+        this.createRows = options.createRows ?? false;
+    }
+
+    onInit(): void {
+        this.focusPlugin = this.getPlugin<FocusPlugin>('focus-plugin');
+        this.selectPlugin = this.getPlugin<SelectPlugin>('selection');
+    }
+
+    onDestroy(): void {
+        this.lastCopied = null;
+    }
+
+    onBeforeCellCommand(command: CellCommand): boolean | void {
+        // Keyboard shortcuts come as plugin-only keydown commands
+        if (command.name === 'keydown' && !command.targetId) {
+            this.handleKeyDown(command.payload.event);
+        }
+        return true;
+    }
+
+    onBeforeRowCommand(): boolean | void {
+        return true;
+    }
+
+    onBeforeSpaceCommand(): boolean | void {
+        return true;
+    }
+
+    // Copy the selection (or the focused cell) as TSV
+    copy(): string | null {
+        const grid = this.getSelectionGrid();
+        if (!grid) return null;
+
+        const text = grid
+            .map(row => row.map(cellId => formatField(cellId ? this.getCellValue(cellId) : null, '\t')).join('\t'))
+            .join('\n');
+
+        this.lastCopied = text;
+        navigator.clipboard?.writeText(text).catch(error => {
+            console.warn('ClipboardPlugin: Could not write to the system clipboard:', error);
+        });
+        return text;
+    }
+
+    // Copy, then clear the copied cells in one batch
+    cut(): string | null {
+        const text = this.copy();
+        const grid = this.getSelectionGrid();
+        if (text === null || !grid) return text;
+
+        const cellIds = grid.flat().filter((cellId): cellId is CellId => cellId !== null);
+        this.getTableAPIs().createCellCommands(cellIds.map(targetId => ({
+            targetId,
+            command: { name: 'updateValue', payload: { value: null } }
+        })));
+        return text;
+    }
+
+    // Paste TSV/CSV text starting at the focused cell, walking right and down the cell links
+    paste(text: string): void {
+        const startCellId = this.focusPlugin?.getFocused();
+        if (!startCellId) {
+            console.warn('ClipboardPlugin: No focused cell to paste into');
+            return;
+        }
+
+        const rows = parseDelimited(text);
+        if (rows.length === 0) return;
+
+        const tableAPIs = this.getTableAPIs();
+        tableAPIs.batch(() => {
+            let rowStart: CellId | null = startCellId;
+            let lastRowId: RowId | null = null;
+            const updates: Array<{ targetId: CellId; value: string | null }> = [];
+
+            for (let r = 0; r < rows.length; r++) {
+                if (!rowStart) {
+                    this.createPastedRows(rows.slice(r), lastRowId, tableAPIs.getCell(startCellId)?.columnKey);
+                    break;
+                }
+
+                const values = rows[r];
+                let cellId: CellId | null = rowStart;
+
+                for (const value of values) {
+                    if (!cellId) break; // Past the last column
+                    const cell = tableAPIs.getCell(cellId);
+                    if (!cell) break;
+
+                    updates.push({ targetId: cellId, value: value === '' ? null : value });
+                    cellId = cell.right;
+                }
+
+                const startCell = tableAPIs.getCell(rowStart);
+                lastRowId = startCell?.rowId ?? null;
+                rowStart = startCell?.bottom ?? null;
+            }
+
+            tableAPIs.createCellCommands(updates.map(({ targetId, value }) => ({
+                targetId,
+                command: { name: 'updateValue', payload: { value } }
+            })));
+        });
+    }
+
+    private handleKeyDown(e: KeyboardEvent) {
+        // Leave native clipboard handling to text inputs
+        const target = e.target as HTMLElement | null;
+        if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+            return;
+        }
+
+        if (!(e.ctrlKey || e.metaKey) || e.altKey || e.shiftKey) return;
+
+        switch (e.key.toLowerCase()) {
+            case 'c':
+                if (this.copy() !== null) e.preventDefault();
+                break;
+            case 'x':
+                if (this.cut() !== null) e.preventDefault();
+                break;
+            case 'v':
+                // Nothing to paste into without a focused cell, keep the browser's paste
+                if (!this.focusPlugin?.getFocused()) return;
+                e.preventDefault();
+                this.readClipboard().then(text => {
+                    if (text) this.paste(text);
+                });
+                break;
+        }
+    }
+
+    private readClipboard(): Promise<string | null> {
+        if (!navigator.clipboard?.readText) {
+            return Promise.resolve(this.lastCopied);
+        }
+        return navigator.clipboard.readText().catch(error => {
+            console.warn('ClipboardPlugin: Could not read the system clipboard, using last copied text:', error);
+            return this.lastCopied;
+        });
+    }
+
+    // Remaining pasted rows go below the last row of the table space, each
+    // filling as many columns from the anchor column as it has values
+    private createPastedRows(rows: string[][], lastRowId: RowId | null, anchorColumnKey: string | undefined) {
+        const tableAPIs = this.getTableAPIs();
+        const lastRow = lastRowId ? tableAPIs.getRow(lastRowId) : undefined;
+        if (!this.createRows || !lastRowId || !anchorColumnKey || lastRow?.spaceId !== 'table-space') {
+            return;
+        }
+
+        const columns = tableAPIs.getColumns();
+        const columnKeys = columns.slice(columns.indexOf(anchorColumnKey));
+
+        let afterRowId = lastRowId;
+        rows.forEach(values => {
+            const data: Record<string, unknown> = {};
+            values.slice(0, columnKeys.length).forEach((value, index) => {
+                data[columnKeys[index]] = value === '' ? null : value;
+            });
+
+            // Known IDs let each new row be placed after the previous one within the batch
+            const rowId = uuidv4();
+            tableAPIs.createSpaceCommand('table-space', {
+                name: 'createRow',
+                payload: { data, position: { after: afterRowId }, rowId }
+            });
+            afterRowId = rowId;
+        });
+    }
+
+    // Selected cells laid out as rows top to bottom and columns left to right.
+    // Gaps inside the bounding box are null. Falls back to the focused cell.
+    private getSelectionGrid(): (CellId | null)[][] | null {
+        const tableAPIs = this.getTableAPIs();
+        let cellIds = this.selectPlugin?.getSelectedCells() ?? [];
+        if (cellIds.length === 0) {
+            const focused = this.focusPlugin?.getFocused();
+            cellIds = focused ? [focused] : [];
+        }
+
+        const byRow = new Map<RowId, Map<number, CellId>>();
+        let minColumn = Infinity;
+        let maxColumn = -Infinity;
+
+        cellIds.forEach(cellId => {
+            const cell = tableAPIs.getCell(cellId);
+            const row = cell ? tableAPIs.getRow(cell.rowId) : undefined;
+            if (!cell || !row) return;
+
+            // Folded columns are left out of the copied text
+            if (tableAPIs.isColumnFolded(cell.columnKey)) return;
+            const column = row.cells.filter(id => {
+                const other = tableAPIs.getCell(id);
+                return other !== undefined && !tableAPIs.isColumnFolded(other.columnKey);
+            }).indexOf(cellId);
+            if (column === -1) return;
+
+            if (!byRow.has(cell.rowId)) byRow.set(cell.rowId, new Map());
+            byRow.get(cell.rowId)!.set(column, cellId);
+            minColumn = Math.min(minColumn, column);
+            maxColumn = Math.max(maxColumn, column);
+        });
+
+        if (byRow.size === 0) return null;
+
+        // Order rows top to bottom by comparing one cell of each
+        const rows = Array.from(byRow.values()).sort((a, b) => {
+            const cellA = a.values().next().value!;
+            const cellB = b.values().next().value!;
+            const comparison = tableAPIs.compareVertical(cellA, cellB);
+            if (!comparison) return 0;
+            return comparison.top === cellA ? -1 : 1;
+        });
+
+        return rows.map(columns => {
+            const line: (CellId | null)[] = [];
+            for (let column = minColumn; column <= maxColumn; column++) {
+                line.push(columns.get(column) ?? null);
+            }
+            return line;
+        });
+    }
+
+    private getCellValue(cellId: CellId): unknown {
+        const cell = this.getTableAPIs().getCell(cellId);
+        const row = cell ? this.getTableAPIs().getRow(cell.rowId) : undefined;
+        return cell && row ? row.data?.[cell.columnKey] : null;
+    }
+}
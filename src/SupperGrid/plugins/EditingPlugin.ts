@@ -0,0 +1,132 @@
+import { BasePlugin } from '../core/BasePlugin';
+import type { CellCommand, CellId } from '../core/types';
+import { FocusPlugin } from './FocusPlugin';
+
+type Direction = 'top' | 'bottom' | 'left' | 'right';
+
+const isTextInput = (element: HTMLElement | null) =>
+    !!element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.isContentEditable);
+
+// The cell being edited is the one holding the input a key was typed into
+function getEditingCell(target: EventTarget | null): CellId | null {
+    const element = target as HTMLElement | null;
+    if (!isTextInput(element)) return null;
+    return element!.closest('[data-cell-id]')?.getAttribute('data-cell-id') ?? null;
+}
+
+// A single character without Ctrl/Cmd/Alt, i.e. text typed into the cell
+const isPrintable = (e: KeyboardEvent) =>
+    [...e.key].length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey;
+
+// Spreadsheet-style editing through edit/exitEdit commands, the same for every
+// cell type. Enter, F2 or a double-click edits the focused cell, a printable key
+// edits it with that key as the new content. While editing, Enter/Tab commit and
+// move the focus down/right (with Shift up/left) and Escape restores the value
+// from before the edit. A cell answers exitEdit with whether it took the
+// value; one that rejects it keeps editing and the focus stays.
+export class EditingPlugin extends BasePlugin {
+    readonly name = 'editing';
+    readonly version = '1.0.0';
+    readonly dependencies: string[] = ['focus-plugin'];
+    // Keys other plugins already used (e.g. Space on a checkbox) start no edit
+    readonly processLast: boolean = true;
+
+    private focusPlugin: FocusPlugin | null = null;
+
+    onInit(): void {
+        this.focusPlugin = this.getPlugin<FocusPlugin>('focus-plugin');
+    }
+
+    onBeforeCellCommand(command: CellCommand): boolean | void {
+        // Keyboard shortcuts come as plugin-only keydown commands
+        if (command.name === 'keydown' && !command.targetId) {
+            this.handleKeyDown(command.payload.event);
+        }
+
+        // Double-clicks inside an open editor select text
+        if (command.name === 'dblclick' && command.targetId && !getEditingCell(command.payload.event.target)) {
+            this.startEditing(command.targetId);
+        }
+
+        return true;
+    }
+
+    onBeforeRowCommand(): boolean | void {
+        return true;
+    }
+
+    onBeforeSpaceCommand(): boolean | void {
+        return true;
+    }
+
+    // Read-only, `editable: false` and folded columns are never edited
+    public isEditable(cellId: CellId): boolean {
+        const tableAPIs = this.getTableAPIs();
+        const cell = tableAPIs.getCell(cellId);
+        const config = cell ? tableAPIs.getColumnConfig(cell.columnKey) : undefined;
+        return !!cell && !!config && !config.readOnly && config.editable !== false && !tableAPIs.isColumnFolded(cell.columnKey);
+    }
+
+    public startEditing(cellId: CellId, text?: string): void {
+        if (!this.isEditable(cellId)) return;
+        // Built apart: createCellCommand's type only knows the keys all commands share
+        const edit = { name: 'edit' as const, payload: { text } };
+        this.getTableAPIs().createCellCommand(cellId, edit);
+    }
+
+    // Commit (or cancel) the edit of a cell. onResult gets whether the cell
+    // took the value, possibly after an async check.
+    public stopEditing(cellId: CellId, cancel = false, onResult?: (accepted: boolean) => void): void {
+        const exitEdit = { name: 'exitEdit' as const, payload: { cancel, onResult } };
+        this.getTableAPIs().createCellCommand(cellId, exitEdit);
+    }
+
+    private handleKeyDown(e: KeyboardEvent) {
+        if (e.isComposing) return;
+
+        const editingCell = getEditingCell(e.target);
+        if (editingCell) {
+            this.handleEditorKey(editingCell, e);
+            return;
+        }
+
+        // Inputs elsewhere on the page and keys other plugins used are not edits
+        if (isTextInput(e.target as HTMLElement | null) || e.defaultPrevented) return;
+
+        const focused = this.focusPlugin?.getFocused();
+        if (!focused || !this.isEditable(focused)) return;
+
+        if ((e.key === 'Enter' && !e.ctrlKey && !e.metaKey && !e.altKey) || e.key === 'F2') {
+            e.preventDefault();
+            this.startEditing(focused);
+        } else if (isPrintable(e)) {
+            // The editor gets the character, the page must not
+            e.preventDefault();
+            this.startEditing(focused, e.key);
+        }
+    }
+
+    private handleEditorKey(cellId: CellId, e: KeyboardEvent) {
+        if (e.key === 'Escape') {
+            e.preventDefault();
+            this.stopEditing(cellId, true);
+        } else if (e.key === 'Enter' && !e.altKey) {
+            e.preventDefault();
+            this.stopEditing(cellId, false, accepted => {
+                if (accepted) this.moveFocus(cellId, e.shiftKey ? 'top' : 'bottom');
+            });
+        } else if (e.key === 'Tab' && !e.ctrlKey && !e.metaKey && !e.altKey) {
+            e.preventDefault();
+            this.stopEditing(cellId, false, accepted => {
+                if (accepted) this.moveFocus(cellId, e.shiftKey ? 'left' : 'right');
+            });
+        }
+    }
+
+    private moveFocus(cellId: CellId, direction: Direction) {
+        const next = this.getTableAPIs().getCell(cellId)?.[direction];
+        if (next) {
+            this.focusPlugin?.focusCell(next);
+        }
+    }
+}
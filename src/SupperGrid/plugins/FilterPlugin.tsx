@@ -0,0 +1,143 @@
+import { BasePlugin } from '../core/BasePlugin';
+import type { RowId } from '../core/types';
+import { FilterMenu } from '../components/FilterMenu';
+
+export type FilterType = 'text' | 'number' | 'values';
+
+export type ColumnFilter =
+    | { type: 'text'; operator: 'contains' | 'equals'; value: string } // Case-insensitive
+    | { type: 'number'; min?: number; max?: number } // Inclusive range
+    | { type: 'values'; values: string[] }; // Checked distinct values, see getValueKey
+
+export type FilterListener = (filters: Record<string, ColumnFilter>) => void;
+
+interface FilterPluginOptions {
+    onChange?: FilterListener;
+}
+
+const TABLE_SPACE = 'table-space';
+
+// Distinct values are compared as strings, empty values share the '' key
+export function getValueKey(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toISOString();
+    return String(value);
+}
+
+function matches(filter: ColumnFilter, value: unknown): boolean {
+    switch (filter.type) {
+        case 'text': {
+            const text = getValueKey(value).toLowerCase();
+            const query = filter.value.toLowerCase();
+            return filter.operator === 'equals' ? text === query : text.includes(query);
+        }
+        case 'number': {
+            if (value === null || value === undefined || value === '') return false;
+            const number = Number(value);
+            if (Number.isNaN(number)) return false;
+            return (filter.min === undefined || number >= filter.min) &&
+                (filter.max === undefined || number <= filter.max);
+        }
+        case 'values':
+            return filter.values.includes(getValueKey(value));
+    }
+}
+
+export class FilterPlugin extends BasePlugin {
+    readonly name = 'filter';
+    readonly version = '1.0.0';
+
+    private filters = new Map<string, ColumnFilter>();
+    private listeners = new Set<FilterListener>();
+
+    constructor(options: FilterPluginOptions = {}) {
+        super();
+        if (options.onChange) {
+            this.listeners.add(options.onChange);
+        }
+    }
+
+    onDestroy(): void {
+        this.filters.clear();
+        this.listeners.clear();
+    }
+
+    onBeforeCellCommand(): boolean | void {
+        return true;
+    }
+
+    onBeforeRowCommand(): boolean | void {
+        return true;
+    }
+
+    onBeforeSpaceCommand(): boolean | void {
+        return true;
+    }
+
+    renderHeader(columnKey: string): React.ReactNode {
+        const config = this.tableAPIs?.getColumnConfig(columnKey);
+        if (!config?.filterable) return null;
+
+        return (
+            <FilterMenu
+                type={config.filterType ?? 'text'}
+                filter={this.filters.get(columnKey)}
+                getValues={() => this.getDistinctValues(columnKey)}
+                onApply={filter => this.setFilter(columnKey, filter)}
+            />
+        );
+    }
+
+    public getFilters(): Record<string, ColumnFilter> {
+        return Object.fromEntries(this.filters);
+    }
+
+    public getFilter(columnKey: string): ColumnFilter | null {
+        return this.filters.get(columnKey) ?? null;
+    }
+
+    // Set or clear (null) the filter of a column and re-filter the table space
+    public setFilter(columnKey: string, filter: ColumnFilter | null): void {
+        if (filter) {
+            this.filters.set(columnKey, filter);
+        } else {
+            this.filters.delete(columnKey);
+        }
+        this.applyFilters();
+    }
+
+    public clearFilters(): void {
+        this.filters.clear();
+        this.applyFilters();
+    }
+
+    public onFilterChange(listener: FilterListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    // Distinct values of a column over the whole table space, hidden rows included
+    public getDistinctValues(columnKey: string): string[] {
+        const apis = this.getTableAPIs();
+        const values = new Set(apis.getRowIdsInSpace(TABLE_SPACE).map(rowId => getValueKey(apis.getRow(rowId)?.data?.[columnKey])));
+        return [...values].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    }
+
+    // Re-run the filters, e.g. after values changed. Rows are only hidden,
+    // never destroyed, so clearing a filter brings them back as they were.
+    public applyFilters(): void {
+        const apis = this.getTableAPIs();
+        const hiddenRowIds: RowId[] = apis.getRowIdsInSpace(TABLE_SPACE).filter(rowId => {
+            const data = apis.getRow(rowId)?.data;
+            return [...this.filters].some(([columnKey, filter]) => !matches(filter, data?.[columnKey]));
+        });
+
+        apis.createSpaceCommand(TABLE_SPACE, { name: 'setHiddenRows', payload: { rowIds: hiddenRowIds } });
+        apis.refreshHeader();
+
+        const filters = this.getFilters();
+        this.listeners.forEach(listener => listener(filters));
+    }
+}
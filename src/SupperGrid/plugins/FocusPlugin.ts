@@ -64,6 +64,26 @@ export class FocusPlugin extends BasePlugin {
             const event = command.payload.event;
             console.log('Keyboard command received:', event.key);
 
+            // Keys typed into a cell editor move its caret
+            const target = event.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) {
+                return true;
+            }
+
+            // Alt+Shift+Left folds the focused column, Alt+Shift+Right expands its folded neighbours
+            if (event.altKey && event.shiftKey && (event.key === 'ArrowLeft' || event.key === 'ArrowRight')) {
+                event.preventDefault();
+                this.handleFoldShortcut(event.key === 'ArrowLeft');
+                return true;
+            }
+
+            // Alt+Shift+Up/Down moves the focused row past the row above/below it
+            if (event.altKey && event.shiftKey && (event.key === 'ArrowUp' || event.key === 'ArrowDown')) {
+                event.preventDefault();
+                this.handleMoveShortcut(event.key === 'ArrowUp');
+                return true;
+            }
+
             if (this.isArrow(event.key)) {
                 event.preventDefault();
                 this.handleNavigation(event.key);
@@ -80,6 +100,88 @@ export class FocusPlugin extends BasePlugin {
         return true;
     }
 
+    onBeforeSpaceCommand(): boolean | void {
+        return true;
+    }
+
+    onCellMount(cellId: CellId): void {
+        // The focused cell was scrolled back into view
+        if (cellId === this.focusedCell) {
+            this.tableAPIs?.createCellCommand(cellId, { name: 'focus' });
+        }
+    }
+
+    onColumnFold(columnKey: string, folded: boolean): void {
+        if (!folded || !this.focusedCell) return;
+        const cell = this.tableAPIs?.getCell(this.focusedCell);
+        if (cell?.columnKey !== columnKey) return;
+
+        // The focused cell folded away - move to the nearest unfolded cell of its row
+        const next = this.getNearestUnfoldedCell(this.focusedCell);
+        if (next) {
+            this.focusCell(next);
+        } else {
+            this.blurCell(this.focusedCell);
+            this.focusedCell = null;
+        }
+    }
+
+    private handleFoldShortcut(fold: boolean) {
+        if (!this.focusedCell || !this.tableAPIs) return;
+        const tableAPIs = this.tableAPIs;
+        const cell = tableAPIs.getCell(this.focusedCell);
+        if (!cell) return;
+
+        if (fold) {
+            // Keep at least one column unfolded to hold the focus
+            if (this.getNearestUnfoldedCell(this.focusedCell)) {
+                tableAPIs.setColumnFolded(cell.columnKey, true);
+            }
+            return;
+        }
+
+        // Expand the runs of folded columns right next to the focused one
+        const columns = tableAPIs.getColumns();
+        const index = columns.indexOf(cell.columnKey);
+        for (const step of [-1, 1]) {
+            for (let i = index + step; i >= 0 && i < columns.length && tableAPIs.isColumnFolded(columns[i]); i += step) {
+                tableAPIs.setColumnFolded(columns[i], false);
+            }
+        }
+    }
+
+    private handleMoveShortcut(up: boolean) {
+        if (!this.focusedCell || !this.tableAPIs) return;
+        const cell = this.tableAPIs.getCell(this.focusedCell);
+        const row = cell ? this.tableAPIs.getRow(cell.rowId) : undefined;
+        if (!cell || !row) return;
+
+        // Row links skip filtered out rows, so the row moves past the visible neighbour
+        const neighbour = up ? row.top : row.bottom;
+        if (!neighbour) return;
+
+        if (this.tableAPIs.moveRow(cell.rowId, up ? { before: neighbour } : { after: neighbour })) {
+            // Same cell at its new place
+            this.tableAPIs.scrollCellIntoView(this.focusedCell);
+        }
+    }
+
+    // Closest cell of the same row whose column is not folded, looking right first
+    private getNearestUnfoldedCell(cellId: CellId): CellId | null {
+        const cell = this.tableAPIs?.getCell(cellId);
+        const row = cell ? this.tableAPIs?.getRow(cell.rowId) : undefined;
+        if (!row) return null;
+
+        const index = row.cells.indexOf(cellId);
+        const isUnfolded = (id: CellId) => {
+            const other = this.tableAPIs?.getCell(id);
+            return other !== undefined && !this.tableAPIs?.isColumnFolded(other.columnKey);
+        };
+        return row.cells.slice(index + 1).find(isUnfolded)
+            ?? row.cells.slice(0, index).reverse().find(isUnfolded)
+            ?? null;
+    }
+
     private handleNavigation(direction: string) {
         if (!this.focusedCell) return;
         switch (direction) {
@@ -125,12 +227,14 @@ export class FocusPlugin extends BasePlugin {
     private blurCell(id: CellId) {
         this.tableAPIs?.createCellCommand(id, { name: 'blur' })
     }
-    private focusCell(id: CellId): void {
+    public focusCell(id: CellId): void {
         if (this.focusedCell) {
             this.blurCell(this.focusedCell);
         }
         this.focusedCell = id;
         this.tableAPIs?.createCellCommand(id, { name: 'focus' })
+        // The cell may sit in a row that is not mounted (virtualized space)
+        this.tableAPIs?.scrollCellIntoView(id);
     }
 
     public getFocused(): CellId | null{
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { TableCore } from '../core/TableCore';
+import type { SpaceCommand } from '../core/types';
+import { FocusPlugin } from './FocusPlugin';
+import { SelectPlugin } from './SelectionPlugin';
+
+function createTable() {
+    const core = new TableCore();
+    const selection = new SelectPlugin();
+    core.addPlugin(new FocusPlugin());
+    core.addPlugin(selection);
+    core.initializePlugins();
+    core.setColumns(['name', 'age']);
+    core.reconcileSpaceData('table-space', [{ name: 'a' }, { name: 'b' }, { name: 'c' }], row => row.name);
+    core.reconcileSpaceData('sticky-space', [{ name: 's' }], row => row.name);
+
+    // What the Space component does with sort and filter commands
+    core.getSpaceCommandRegistry().register('table-space', (command: SpaceCommand) => {
+        if (command.name === 'reorderRows') {
+            core.reorderSpace('table-space', (command as SpaceCommand<'reorderRows'>).payload.rowIds);
+        }
+        if (command.name === 'setHiddenRows') {
+            core.setHiddenRows('table-space', (command as SpaceCommand<'setHiddenRows'>).payload.rowIds);
+        }
+    });
+
+    const selected = () => selection.getSelectedCells().sort();
+    return { core, selection, selected };
+}
+
+describe('SelectPlugin', () => {
+    it('selects columns over the rows of the table space only', () => {
+        const { selection, selected } = createTable();
+
+        selection.setSelection([{ type: 'columns', from: 'age', to: 'age' }]);
+
+        expect(selected()).toEqual(['a:age', 'b:age', 'c:age']);
+    });
+
+    it('selects rows between two rows in their current order', () => {
+        const { core, selection, selected } = createTable();
+        core.reorderSpace('table-space', ['c', 'a', 'b']);
+
+        selection.setSelection([{ type: 'rows', from: 'c', to: 'a' }]);
+
+        expect(selected()).toEqual(['a:age', 'a:name', 'c:age', 'c:name']);
+    });
+
+    it('resolves ranges again after a sort or filter', () => {
+        const { core, selection, selected } = createTable();
+        selection.setSelection([{ type: 'rows', from: 'a', to: 'b' }]);
+
+        core.getSpaceCommandRegistry().dispatch({ name: 'reorderRows', targetSpaceId: 'table-space', payload: { rowIds: ['a', 'c', 'b'] } });
+        expect(selected()).toEqual(['a:age', 'a:name', 'b:age', 'b:name', 'c:age', 'c:name']);
+
+        core.getSpaceCommandRegistry().dispatch({ name: 'setHiddenRows', targetSpaceId: 'table-space', payload: { rowIds: ['c'] } });
+        expect(selected()).toEqual(['a:age', 'a:name', 'b:age', 'b:name']);
+    });
+});
@@ -1,7 +1,27 @@
 import { BasePlugin } from "../core/BasePlugin";
-import type { CellCommand, CellId, RowCommand } from "../core/types";
+import type { Cell, CellCommand, CellId, CommandResult, RowCommand, RowCommandMap, RowId, SpaceCommand, SpaceCommandMap, SpaceId } from "../core/types";
 import { FocusPlugin } from "./FocusPlugin";
 
+// Cells are addressed by row and column, so ranges outlive the cell components
+export type CellPosition = { rowId: RowId; columnKey: string };
+
+export type SelectionRange =
+    | { type: 'cells'; from: CellPosition; to: CellPosition } // Block between two corner cells
+    | { type: 'rows'; from: RowId; to: RowId } // Whole rows, inclusive
+    // Whole columns by key, inclusive, over the rows of one space (the table space by default)
+    | { type: 'columns'; from: string; to: string; spaceId?: SpaceId };
+
+const TABLE_SPACE = 'table-space';
+
+export type SelectionListener = (selection: SelectionRange[]) => void;
+
+// Ranges are copied in and out so callers cannot change the model behind our back
+function copyRange(range: SelectionRange): SelectionRange {
+    return range.type === 'cells'
+        ? { ...range, from: { ...range.from }, to: { ...range.to } }
+        : { ...range };
+}
+
 export class SelectPlugin extends BasePlugin {
     readonly name = "selection";
     readonly version: string = "1.0.0";
@@ -10,25 +30,89 @@ export class SelectPlugin extends BasePlugin {
 
     private focusPlugin: FocusPlugin | null = null;
     private anchorCell: CellId | null = null; // TODO: Implement selection anchor
+    // Anchor of mouse selection, kept so Shift+click can extend from it
+    private mouseAnchor: CellId | null = null;
+    private isDragging = false;
 
+    // The selection model and the cells it currently resolves to
+    private ranges: SelectionRange[] = [];
     private selectionSet: Set<string> = new Set();
+    private listeners = new Set<SelectionListener>();
 
     onInit(): void {
         this.focusPlugin = this.getPlugin<FocusPlugin>('focus-plugin')
     }
 
     onDestroy(): void {
+        this.ranges = [];
+        this.selectionSet.clear();
+        this.listeners.clear();
+    }
 
+    onBeforeRowCommand(): boolean | void {
+        return true;
     }
 
-    onBeforeRowCommand(_command: RowCommand): boolean | void {
+    onAfterRowCommand<K extends keyof RowCommandMap>(command: RowCommand<K>, result: CommandResult): void {
+        if (command.name !== 'destroy' || result.blocked) return;
+
+        // Drop ranges anchored on the removed row
+        const rowId = command.targetId;
+        const ranges = this.ranges.filter(range => {
+            if (range.type === 'cells') return range.from.rowId !== rowId && range.to.rowId !== rowId;
+            if (range.type === 'rows') return range.from !== rowId && range.to !== rowId;
+            return true;
+        });
+        const row = (command as RowCommand<'destroy'>).payload.row;
+        row?.cells.forEach(cellId => this.selectionSet.delete(cellId));
+
+        if (ranges.length !== this.ranges.length) {
+            this.setSelection(ranges);
+        }
+    }
+
+    onBeforeSpaceCommand(): boolean | void {
         return true;
     }
 
+    onAfterSpaceCommand<K extends keyof SpaceCommandMap>(command: SpaceCommand<K>, result: CommandResult): void {
+        // Sorting and filtering change which rows a range spans
+        if (command.name !== 'reorderRows' && command.name !== 'setHiddenRows') return;
+        if (result.delivered && this.ranges.length > 0) {
+            this.setSelection(this.ranges);
+        }
+    }
+
+    onCellMount(cellId: CellId): void {
+        // Selected cells keep their state while scrolled out of view
+        if (this.selectionSet.has(cellId)) {
+            this.tableAPIs?.createCellCommand(cellId, { name: 'select' });
+        }
+    }
+
+    onColumnFold(): void {
+        // Re-resolve so cells of folded columns leave the selection (and come back)
+        if (this.ranges.length > 0) {
+            this.setSelection(this.ranges);
+        }
+    }
+
     onBeforeCellCommand(command: CellCommand): boolean | void {
         const { name } = command;
-        if (name === 'click') {
-           this.clearSelection()
+        if (name === 'click' && !command.payload.event.shiftKey) {
+           this.clearSelection();
+        }
+        if (name === 'mouseDown' && command.targetId) {
+            this.handleMouseDown(command.targetId, command.payload.event);
+            return true;
+        }
+        if (name === 'mouseEnter' && command.targetId) {
+            this.handleMouseEnter(command.targetId, command.payload.event);
+            return true;
+        }
+        if (name === 'mouseUp') {
+            this.isDragging = false;
+            return true;
         }
         if (name === 'keydown') {
             this.handleKeyDown(command.payload.event);
@@ -42,6 +126,52 @@ export class SelectPlugin extends BasePlugin {
         return true;
     }
 
+    public getSelection(): SelectionRange[] {
+        return this.ranges.map(copyRange);
+    }
+
+    // Replace the selection. Only cells whose state changes get a command,
+    // all in one batch.
+    public setSelection(ranges: SelectionRange[]): void {
+        const hadSelection = this.ranges.length > 0;
+        this.ranges = ranges.map(copyRange);
+
+        // Folded columns are never part of the selection
+        const tableAPIs = this.getTableAPIs();
+        const cellIds = this.ranges
+            .flatMap(range => this.resolveRange(range))
+            .filter(cellId => {
+                const cell = tableAPIs.getCell(cellId);
+                return cell !== undefined && !tableAPIs.isColumnFolded(cell.columnKey);
+            });
+        tableAPIs.batch(() => this.replaceSelection(cellIds));
+
+        if (hadSelection || this.ranges.length > 0) {
+            this.notifySelectionChange();
+        }
+    }
+
+    public onSelectionChange(listener: SelectionListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    public getSelectedCells(): CellId[] {
+        return Array.from(this.selectionSet);
+    }
+
+    // Rows that have at least one selected cell
+    public getSelectedRowIds(): RowId[] {
+        const rowIds = new Set<RowId>();
+        this.selectionSet.forEach(cellId => {
+            const cell = this.getTableAPIs().getCell(cellId);
+            if (cell) rowIds.add(cell.rowId);
+        });
+        return Array.from(rowIds);
+    }
+
     private handleKeyDown(e: KeyboardEvent) {
         if (e.key === "Shift" || e.key === "Alt") {
             const anchor = this.focusPlugin?.getFocused();
@@ -54,109 +184,235 @@ export class SelectPlugin extends BasePlugin {
         if (this.isArrow(e.key)) {
             if (this.anchorCell) {
                 const toCell = this.focusPlugin?.getFocused();
+                const anchor = this.anchorCell;
                 if (e.shiftKey && toCell && !e.altKey && !e.metaKey && !e.ctrlKey) {
-                    this.clearSelection();
-                    this.linearSelection(this.anchorCell, toCell);
+                    this.setSelection(this.linearSelection(anchor, toCell));
                 }
                 if (toCell && e.altKey && !e.shiftKey && !e.metaKey && !e.ctrlKey) {
-                    this.clearSelection();
-                    this.rectangularSelection(this.anchorCell, toCell);
+                    this.setSelection(this.rectangularSelection(anchor, toCell));
                 }
             }
         }
 
         if (e.key === 'Escape') {
-            this.clearSelection()
+            this.clearSelection();
+        }
+    }
+
+    private handleMouseDown(cellId: CellId, e: MouseEvent) {
+        if (e.button !== 0) return;
+
+        // Keep caret placement and text selection inside editors
+        const target = e.target as HTMLElement | null;
+        if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+
+        if (e.shiftKey) {
+            // Extend from the anchor, or from the focused cell (focus moves on the click that follows)
+            const anchor = this.mouseAnchor ?? this.focusPlugin?.getFocused() ?? cellId;
+            this.mouseAnchor = anchor;
+            this.setSelection(this.rectangularSelection(anchor, cellId));
+        } else {
+            this.mouseAnchor = cellId;
+            this.isDragging = true;
+            this.clearSelection();
         }
     }
 
+    private handleMouseEnter(cellId: CellId, e: MouseEvent) {
+        // The button may have been released outside the grid
+        if ((e.buttons & 1) === 0) {
+            this.isDragging = false;
+        }
+        if (!this.isDragging || !this.mouseAnchor) return;
+
+        this.setSelection(this.rectangularSelection(this.mouseAnchor, cellId));
+    }
+
     private clearSelection() {
-        this.selectionSet.forEach(id => {
-            this.unselect(id);
-        })
-        this.selectionSet.clear();
+        this.setSelection([]);
     }
 
-    private linearSelection(from: CellId, to: CellId) {
+    // Text-like selection: the rest of the top row, whole rows in between,
+    // and the start of the bottom row
+    private linearSelection(from: CellId, to: CellId): SelectionRange[] {
         const vSorted = this.tableAPIs?.compareVertical(from, to);
 
         if (!vSorted) {
             // Same row - simple horizontal selection
-            const hSorted = this.tableAPIs?.compareHorizontal(from, to);
-            if (hSorted) {
-                this.selectHorizontalRange(hSorted.left, hSorted.right);
-            }
-            return;
+            return this.rectangularSelection(from, to);
         }
 
-        // Different rows - start from top row
         const topCell = this.tableAPIs?.getCell(vSorted.top);
-        const bottomCell = vSorted.bottom;
+        const bottomCell = this.tableAPIs?.getCell(vSorted.bottom);
+        if (!topCell || !bottomCell) return [];
 
-        if (!topCell) return;
+        const ranges = this.rectangularSelection(vSorted.top, this.edgeCell(vSorted.top, 'right'));
 
-        // Get the starting row
-        let currentRow = this.tableAPIs?.getRow(topCell.rowId);
+        // Whole rows between the first and the last one
+        const topRow = this.tableAPIs?.getRow(topCell.rowId);
+        const bottomRow = this.tableAPIs?.getRow(bottomCell.rowId);
+        if (topRow?.bottom && bottomRow?.top && topRow.bottom !== bottomCell.rowId) {
+            ranges.push({ type: 'rows', from: topRow.bottom, to: bottomRow.top });
+        }
 
-        let atTopRow = true;
-        while (currentRow) {
-            // Walk this row's cells array (ordered left to right)
+        ranges.push(...this.rectangularSelection(this.edgeCell(vSorted.bottom, 'left'), vSorted.bottom));
+        return ranges;
+    }
 
-            if (atTopRow) {
-                this.selectHorizontalRange(vSorted.top, currentRow.cells[currentRow.cells.length - 1]);
-                atTopRow = false;
+    private rectangularSelection(from: CellId, to: CellId): SelectionRange[] {
+        const fromCell = this.tableAPIs?.getCell(from);
+        const toCell = this.tableAPIs?.getCell(to);
+        if (!fromCell || !toCell) return [];
 
-                if (currentRow.bottom) {
-                    currentRow = this.tableAPIs?.getRow(currentRow.bottom);
-                    continue;
-                } else {
-                    break; // No more rows
-                }
-            }
-            for (const cellId of currentRow.cells) {
-                this.select(cellId);
+        return [{
+            type: 'cells',
+            from: { rowId: fromCell.rowId, columnKey: fromCell.columnKey },
+            to: { rowId: toCell.rowId, columnKey: toCell.columnKey }
+        }];
+    }
 
-                // If we found the target bottom cell, we're done
-                if (this.cellsEqual(cellId, bottomCell)) {
-                    return;
-                }
-            }
+    // Last cell of a row in one direction
+    private edgeCell(cellId: CellId, direction: 'left' | 'right'): CellId {
+        let current = cellId;
+        let next = this.tableAPIs?.getCell(current)?.[direction];
+        while (next) {
+            current = next;
+            next = this.tableAPIs?.getCell(current)?.[direction];
+        }
+        return current;
+    }
 
-            // Move to next row using bottom row ID
-            if (currentRow.bottom) {
-                currentRow = this.tableAPIs?.getRow(currentRow.bottom);
-            } else {
-                break; // No more rows
+    private resolveRange(range: SelectionRange): CellId[] {
+        switch (range.type) {
+            case 'cells': {
+                const from = this.getCellAt(range.from);
+                const to = this.getCellAt(range.to);
+                return from && to ? this.getRectangle(from, to) : [];
+            }
+            case 'rows':
+                return this.getRowsBetween(range.from, range.to)
+                    .flatMap(rowId => this.tableAPIs?.getRow(rowId)?.cells ?? []);
+            case 'columns': {
+                const rowIds = this.getVisibleRowIds(range.spaceId ?? TABLE_SPACE);
+                const columnKeys = new Set(this.getColumnsBetween(range.from, range.to, rowIds));
+                return rowIds.flatMap(rowId =>
+                    (this.tableAPIs?.getRow(rowId)?.cells ?? []).filter(cellId => {
+                        const cell = this.tableAPIs?.getCell(cellId);
+                        return cell !== undefined && columnKeys.has(cell.columnKey);
+                    })
+                );
             }
         }
     }
 
-    private selectHorizontalRange(left: CellId, right: CellId) {
-        // For same row, we can still use the row's cells array for efficiency
-        const leftCell = this.tableAPIs?.getCell(left);
-        if (!leftCell) return;
+    private getCellAt(position: CellPosition): CellId | null {
+        const row = this.tableAPIs?.getRow(position.rowId);
+        return row?.cells.find(cellId => this.tableAPIs?.getCell(cellId)?.columnKey === position.columnKey) ?? null;
+    }
+
+    // Rows of a space top to bottom, without hidden (filtered out) ones
+    private getVisibleRowIds(spaceId: SpaceId): RowId[] {
+        const tableAPIs = this.getTableAPIs();
+        return tableAPIs.getRowIdsInSpace(spaceId).filter(rowId => !tableAPIs.getRow(rowId)?.hidden);
+    }
+
+    // Visible rows from one row to another in the space of the first, in either direction
+    private getRowsBetween(from: RowId, to: RowId): RowId[] {
+        const spaceId = this.tableAPIs?.getRow(from)?.spaceId;
+        if (!spaceId) return [];
+
+        const rowIds = this.getVisibleRowIds(spaceId);
+        const start = rowIds.indexOf(from);
+        const end = rowIds.indexOf(to);
+        if (start === -1 || end === -1) return [];
+        return rowIds.slice(Math.min(start, end), Math.max(start, end) + 1);
+    }
+
+    // Column keys from one column to another, read from the cell links of a row
+    private getColumnsBetween(from: string, to: string, rowIds: RowId[]): string[] {
+        for (const rowId of rowIds) {
+            const start = this.getCellAt({ rowId, columnKey: from });
+            const end = this.getCellAt({ rowId, columnKey: to });
+            if (!start || !end) continue;
 
-        const row = this.tableAPIs?.getRow(leftCell.rowId);
-        if (!row) return;
+            return this.getRectangle(start, end)
+                .map(cellId => this.tableAPIs?.getCell(cellId)?.columnKey)
+                .filter((key): key is string => key !== undefined);
+        }
+        return [];
+    }
 
-        let selecting = false;
-        for (const cellId of row.cells) {
-            if (this.cellsEqual(cellId, left)) selecting = true;
+    // Cells of the block spanned by two corner cells, found by walking the spatial links
+    private getRectangle(from: CellId, to: CellId): CellId[] {
+        const tableAPIs = this.getTableAPIs();
+        const toCell = tableAPIs.getCell(to);
+        if (!toCell || !tableAPIs.getCell(from)) return [];
+
+        // Which way and how far the target column and row are from the anchor
+        const horizontal = this.walkTo(from, ['left', 'right'], cell => cell.columnKey === toCell.columnKey);
+        const vertical = this.walkTo(from, ['top', 'bottom'], cell => cell.rowId === toCell.rowId);
+        if (!horizontal || !vertical) {
+            console.warn(`SelectPlugin: Cannot reach ${to} from ${from} through cell links`);
+            return [];
+        }
 
-            if (selecting) {
-                this.select(cellId);
+        const cells: CellId[] = [];
+        let rowStart: CellId | null = from;
+        for (let r = 0; r <= vertical.steps && rowStart; r++) {
+            let cellId: CellId | null = rowStart;
+            for (let c = 0; c <= horizontal.steps && cellId; c++) {
+                cells.push(cellId);
+                cellId = tableAPIs.getCell(cellId)?.[horizontal.direction] ?? null;
             }
+            rowStart = tableAPIs.getCell(rowStart)?.[vertical.direction] ?? null;
+        }
+        return cells;
+    }
 
-            if (this.cellsEqual(cellId, right)) break;
+    // Follow links from a cell in each direction until a cell matches
+    private walkTo<D extends 'left' | 'right' | 'top' | 'bottom'>(
+        from: CellId,
+        directions: D[],
+        matches: (cell: Cell) => boolean
+    ): { direction: D; steps: number } | null {
+        const tableAPIs = this.getTableAPIs();
+        const start = tableAPIs.getCell(from);
+        if (start && matches(start)) return { direction: directions[0], steps: 0 };
+
+        for (const direction of directions) {
+            let steps = 0;
+            let current = start?.[direction] ?? null;
+            while (current) {
+                steps++;
+                const cell = tableAPIs.getCell(current);
+                if (!cell) break;
+                if (matches(cell)) return { direction, steps };
+                current = cell[direction];
+            }
         }
+        return null;
     }
 
-    private cellsEqual(cell1: CellId, cell2: CellId): boolean {
-        return cell1 === cell2; // Since they're the same string IDs
+    // Select exactly these cells, only sending commands for cells that change
+    private replaceSelection(cellIds: CellId[]) {
+        const next = new Set(cellIds);
+        Array.from(this.selectionSet).forEach(id => {
+            if (!next.has(id)) this.unselect(id);
+        });
+        next.forEach(id => {
+            if (!this.selectionSet.has(id)) this.select(id);
+        });
     }
 
-    private rectangularSelection(_from: CellId, _to: CellId) {
-        // TODO: Implement rectangular selection
+    private notifySelectionChange() {
+        const selection = this.getSelection();
+        this.listeners.forEach(listener => {
+            try {
+                listener(selection);
+            } catch (error) {
+                console.error('SelectPlugin: Error in selection listener:', error);
+            }
+        });
     }
 
     private isArrow(key: string) {
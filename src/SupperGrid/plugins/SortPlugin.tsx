@@ -0,0 +1,180 @@
+import { BasePlugin } from '../core/BasePlugin';
+import type { RowId } from '../core/types';
+
+export type SortDirection = 'asc' | 'desc';
+
+// Sorted columns in priority order - the first one decides, later ones break ties
+export type SortDescriptor = { columnKey: string; direction: SortDirection };
+
+export type SortListener = (sort: SortDescriptor[]) => void;
+
+interface SortPluginOptions {
+    onChange?: SortListener;
+}
+
+const TABLE_SPACE = 'table-space';
+
+// Empty values always go last, whatever the direction
+function isEmpty(value: unknown): boolean {
+    return value === null || value === undefined || value === '';
+}
+
+function defaultCompare(a: unknown, b: unknown): number {
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+    if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+    return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+export class SortPlugin extends BasePlugin {
+    readonly name = 'sort';
+    readonly version = '1.0.0';
+
+    private sort: SortDescriptor[] = [];
+    // Order of the table space before sorting, restored when the sort is cleared
+    private unsortedOrder: RowId[] | null = null;
+    private listeners = new Set<SortListener>();
+
+    constructor(options: SortPluginOptions = {}) {
+        super();
+        if (options.onChange) {
+            this.listeners.add(options.onChange);
+        }
+    }
+
+    onDestroy(): void {
+        this.sort = [];
+        this.unsortedOrder = null;
+        this.listeners.clear();
+    }
+
+    onBeforeCellCommand(): boolean | void {
+        return true;
+    }
+
+    onBeforeRowCommand(): boolean | void {
+        return true;
+    }
+
+    onBeforeSpaceCommand(): boolean | void {
+        return true;
+    }
+
+    onHeaderClick(columnKey: string, event: MouseEvent): void {
+        if (!this.isSortable(columnKey)) return;
+        // Shift+click adds the column to the current sort instead of replacing it
+        this.toggleSort(columnKey, event.shiftKey);
+    }
+
+    renderHeader(columnKey: string): React.ReactNode {
+        const index = this.sort.findIndex(descriptor => descriptor.columnKey === columnKey);
+        if (index === -1) {
+            return this.isSortable(columnKey) ? <span className="ml-auto text-neutral-300">↕</span> : null;
+        }
+
+        return (
+            <span className="ml-auto flex items-center text-neutral-700">
+                {this.sort[index].direction === 'asc' ? '↑' : '↓'}
+                {this.sort.length > 1 && <sup className="text-[10px]">{index + 1}</sup>}
+            </span>
+        );
+    }
+
+    public getSort(): SortDescriptor[] {
+        return this.sort.map(descriptor => ({ ...descriptor }));
+    }
+
+    // Replace the sort and reorder the table space. Columns that are not
+    // sortable are ignored.
+    public setSort(sort: SortDescriptor[]): void {
+        this.sort = sort
+            .filter(descriptor => this.isSortable(descriptor.columnKey))
+            .filter((descriptor, index, all) => all.findIndex(other => other.columnKey === descriptor.columnKey) === index)
+            .map(descriptor => ({ ...descriptor }));
+
+        this.applySort();
+        this.tableAPIs?.refreshHeader();
+
+        const current = this.getSort();
+        this.listeners.forEach(listener => listener(current));
+    }
+
+    public onSortChange(listener: SortListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    // Cycle a column through asc -> desc -> unsorted
+    public toggleSort(columnKey: string, multi = false): void {
+        const current = this.sort.find(descriptor => descriptor.columnKey === columnKey);
+        const next: SortDirection | null = !current ? 'asc' : current.direction === 'asc' ? 'desc' : null;
+
+        if (!multi) {
+            this.setSort(next ? [{ columnKey, direction: next }] : []);
+            return;
+        }
+
+        if (!current) {
+            this.setSort([...this.sort, { columnKey, direction: 'asc' }]);
+        } else if (next) {
+            this.setSort(this.sort.map(descriptor => descriptor.columnKey === columnKey ? { columnKey, direction: next } : descriptor));
+        } else {
+            this.setSort(this.sort.filter(descriptor => descriptor.columnKey !== columnKey));
+        }
+    }
+
+    private isSortable(columnKey: string): boolean {
+        return this.tableAPIs?.getColumnConfig(columnKey)?.sortable === true;
+    }
+
+    // Rows are reordered in place (new fractional indices and links) by the
+    // table space, so their cells keep their state
+    private applySort(): void {
+        const apis = this.getTableAPIs();
+        const currentOrder = apis.getRowIdsInSpace(TABLE_SPACE);
+        if (!this.unsortedOrder) {
+            if (this.sort.length === 0) return;
+            this.unsortedOrder = currentOrder;
+        }
+
+        // Rows created while sorted have no unsorted position - they go last
+        const current = new Set(currentOrder);
+        const known = new Set(this.unsortedOrder);
+        const unsorted = [
+            ...this.unsortedOrder.filter(rowId => current.has(rowId)),
+            ...currentOrder.filter(rowId => !known.has(rowId))
+        ];
+        let order: RowId[];
+
+        if (this.sort.length === 0) {
+            order = unsorted;
+            this.unsortedOrder = null;
+        } else {
+            const comparators = this.sort.map(({ columnKey, direction }) => {
+                const compare = apis.getColumnConfig(columnKey)?.sortComparator ?? defaultCompare;
+                const sign = direction === 'asc' ? 1 : -1;
+                return (a: RowId, b: RowId) => {
+                    const valueA = apis.getRow(a)?.data?.[columnKey];
+                    const valueB = apis.getRow(b)?.data?.[columnKey];
+                    if (isEmpty(valueA) || isEmpty(valueB)) {
+                        return Number(isEmpty(valueA)) - Number(isEmpty(valueB));
+                    }
+                    return sign * compare(valueA, valueB);
+                };
+            });
+
+            // Array sort is stable, so equal rows keep their unsorted order
+            order = unsorted.sort((a, b) => {
+                for (const compare of comparators) {
+                    const result = compare(a, b);
+                    if (result !== 0) return result;
+                }
+                return 0;
+            });
+        }
+
+        apis.createSpaceCommand(TABLE_SPACE, { name: 'reorderRows', payload: { rowIds: order } });
+    }
+}
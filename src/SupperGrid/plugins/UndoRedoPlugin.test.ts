@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { TableCore } from '../core/TableCore';
+import { BasePlugin } from '../core/BasePlugin';
+import type { RowCommand, SpaceCommand } from '../core/types';
+import { UndoRedoPlugin, type UndoRedoState } from './UndoRedoPlugin';
+
+// Blocks row commands and batches on request
+class BlockingPlugin extends BasePlugin {
+    readonly name = 'blocker';
+    readonly version = '1.0.0';
+    blockRowCommand: string | null = null;
+    blockBatches = false;
+
+    onBeforeCellCommand(): boolean | void {
+        return true;
+    }
+
+    onBeforeRowCommand(command: RowCommand): boolean | void {
+        return command.name !== this.blockRowCommand;
+    }
+
+    onBeforeSpaceCommand(): boolean | void {
+        return true;
+    }
+
+    onBeforeBatch(): boolean | void {
+        return !this.blockBatches;
+    }
+}
+
+function createTable() {
+    const core = new TableCore();
+    const blocker = new BlockingPlugin();
+    const history = new UndoRedoPlugin();
+    core.addPlugin(blocker);
+    core.addPlugin(history);
+    core.initializePlugins();
+    core.setColumns(['name', 'age']);
+    core.reconcileSpaceData('table-space', [{ name: 'a', age: 1 }, { name: 'b', age: 2 }, { name: 'c', age: 3 }], row => row.name);
+
+    // What the Space component does with createRow
+    core.getSpaceCommandRegistry().register('table-space', (command: SpaceCommand<'createRow'>) => {
+        const { data, position, rowId } = command.payload;
+        core.createRowInSpace('table-space', data, position, rowId);
+    });
+
+    const rows = () => core.getRowIdsInSpaceSorted('table-space');
+    const age = (rowId: string) => core.getRowRegistry().get(rowId)?.data.age;
+    return { core, blocker, history, rows, age };
+}
+
+describe('UndoRedoPlugin', () => {
+    it('undoes and redoes a value', () => {
+        const { core, history, age } = createTable();
+
+        core.setRowValue('a', 'age', 10);
+        history.undo();
+        expect(age('a')).toBe(1);
+        history.redo();
+        expect(age('a')).toBe(10);
+    });
+
+    it('undoes a batch as one step', () => {
+        const { core, history, age } = createTable();
+
+        core.batch(() => {
+            core.setRowValue('a', 'age', 10);
+            core.setRowValue('b', 'age', 20);
+        });
+        history.undo();
+
+        expect([age('a'), age('b')]).toEqual([1, 2]);
+        expect(history.canUndo).toBe(false);
+    });
+
+    it('restores a destroyed row in its place', () => {
+        const { core, history, rows } = createTable();
+
+        core.destroyRow('b');
+        history.undo();
+
+        expect(rows()).toEqual(['a', 'b', 'c']);
+    });
+
+    it('moves a row back and forth', () => {
+        const { core, history, rows } = createTable();
+
+        core.moveRow('a', { after: 'c' });
+        expect(rows()).toEqual(['b', 'c', 'a']);
+
+        history.undo();
+        expect(rows()).toEqual(['a', 'b', 'c']);
+        history.redo();
+        expect(rows()).toEqual(['b', 'c', 'a']);
+    });
+
+    it('records nothing when the parent adds or removes rows', () => {
+        const { core, history, rows } = createTable();
+
+        core.reconcileSpaceData('table-space', [{ name: 'a', age: 1 }, { name: 'c', age: 3 }], row => row.name);
+        expect(rows()).toEqual(['a', 'c']);
+        expect(history.canUndo).toBe(false);
+
+        core.batch(() => {
+            core.reconcileSpaceData('table-space', [{ name: 'a', age: 1 }], row => row.name);
+        });
+        expect(rows()).toEqual(['a']);
+        expect(history.canUndo).toBe(false);
+    });
+
+    it('records nothing for a blocked destroy', () => {
+        const { core, blocker, history, rows } = createTable();
+        blocker.blockRowCommand = 'destroy';
+
+        core.destroyRow('b');
+
+        expect(rows()).toEqual(['a', 'b', 'c']);
+        expect(history.canUndo).toBe(false);
+    });
+
+    it('records nothing for a blocked batch and keeps later steps apart', () => {
+        const { core, blocker, history, age } = createTable();
+        blocker.blockBatches = true;
+        core.batch(() => core.setRowValue('a', 'age', 10));
+        expect(history.canUndo).toBe(false);
+
+        blocker.blockBatches = false;
+        core.setRowValue('b', 'age', 20);
+        history.undo();
+
+        expect([age('a'), age('b')]).toEqual([1, 2]);
+        expect(history.canUndo).toBe(false);
+    });
+
+    it('tells listeners when undo and redo become available', () => {
+        const { core, history } = createTable();
+        const states: UndoRedoState[] = [];
+        const unsubscribe = history.onChange(state => states.push(state));
+
+        core.setRowValue('a', 'age', 10);
+        history.undo();
+        unsubscribe();
+        history.redo();
+
+        expect(states).toEqual([
+            { canUndo: true, canRedo: false },
+            { canUndo: false, canRedo: true }
+        ]);
+    });
+});
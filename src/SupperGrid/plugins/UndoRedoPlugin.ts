@@ -0,0 +1,316 @@
+import { BasePlugin } from '../core/BasePlugin';
+import type { CellCommand, CellValueChange, CommandBatch, CommandResult, Row, RowCommand, RowCommandMap, RowId, RowMovePosition, SpaceCommand, SpaceCommandMap, SpaceId } from '../core/types';
+import { v4 as uuidv4 } from 'uuid';
+
+// A reversible operation. Values are addressed by row and column rather than
+// cell ID, because a re-created row gets new cells.
+type HistoryEntry =
+    | { type: 'value'; rowId: RowId; columnKey: string; oldValue: unknown; newValue: unknown }
+    | { type: 'createRow'; rowId: RowId; spaceId: SpaceId; data: unknown; position: 'top' | { after: RowId } }
+    | { type: 'destroyRow'; rowId: RowId; spaceId: SpaceId; data: unknown; position: 'top' | { after: RowId } }
+    | { type: 'moveRow'; rowId: RowId; from: RowMovePosition; to: RowMovePosition };
+
+type HistoryStep = HistoryEntry[];
+
+export interface UndoRedoState {
+    canUndo: boolean;
+    canRedo: boolean;
+}
+
+export type UndoRedoListener = (state: UndoRedoState) => void;
+
+interface UndoRedoPluginOptions {
+    maxHistory?: number;
+    onChange?: UndoRedoListener;
+}
+
+export class UndoRedoPlugin extends BasePlugin {
+    readonly name = 'undo-redo';
+    readonly version = '1.0.0';
+
+    private undoStack: HistoryStep[] = [];
+    private redoStack: HistoryStep[] = [];
+    private maxHistory: number;
+    private onChangeOption?: UndoRedoListener;
+    // Added through onChange, dropped with the table
+    private listeners = new Set<UndoRedoListener>();
+
+    // Entries of batches that are still being delivered, grouped into one step on onAfterBatch
+    private pendingBatches = new Map<string, HistoryStep>();
+    // Set while undo/redo replays entries so they are not recorded again
+    private isApplying = false;
+
+    constructor(options: UndoRedoPluginOptions = {}) {
+        super();
+        this.maxHistory = options.maxHistory ?? 100;
+        this.onChangeOption = options.onChange;
+    }
+
+    onDestroy(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.pendingBatches.clear();
+        this.listeners.clear();
+    }
+
+    get canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    get canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    // Called whenever canUndo or canRedo may have changed. Returns an unsubscribe function.
+    public onChange(listener: UndoRedoListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    onBeforeCellCommand(command: CellCommand): boolean | void {
+        // Keyboard shortcuts come as plugin-only keydown commands
+        if (command.name === 'keydown' && !command.targetId) {
+            this.handleKeyDown(command.payload.event);
+        }
+
+        return true;
+    }
+
+    // Values are recorded as written, after the cell accepted and normalized them
+    onCellValueChange(change: CellValueChange): void {
+        if (this.isApplying) return;
+
+        this.record({
+            type: 'value',
+            rowId: change.rowId,
+            columnKey: change.columnKey,
+            oldValue: change.oldValue,
+            newValue: change.newValue
+        }, change.batchId);
+    }
+
+    onBeforeRowCommand(): boolean | void {
+        return true;
+    }
+
+    onAfterRowCommand<K extends keyof RowCommandMap>(command: RowCommand<K>, result: CommandResult): void {
+        if (this.isApplying) return;
+
+        // Moves are done by the time the command goes out, blocked or not
+        if (command.name === 'linkToTop' || command.name === 'linkToBottom') {
+            const { targetRowId, spaceId, from } = (command as RowCommand<'linkToTop' | 'linkToBottom'>).payload;
+            let to: RowMovePosition;
+            if (targetRowId) {
+                to = command.name === 'linkToTop' ? { after: targetRowId } : { before: targetRowId };
+            } else {
+                to = { spaceId, position: command.name === 'linkToTop' ? 'top' : 'bottom' };
+            }
+
+            this.record({
+                type: 'moveRow',
+                rowId: command.targetId,
+                from: from.top ? { after: from.top } : from.bottom ? { before: from.bottom } : { spaceId: from.spaceId, position: 'top' },
+                to
+            }, command.batchId);
+            return;
+        }
+
+        // A blocked destroy leaves the row where it is
+        if (command.name !== 'destroy' || result.blocked) return;
+
+        // Rows the parent dropped from its data are its change, not an edit
+        const { row, reconciled } = (command as RowCommand<'destroy'>).payload;
+        if (!row || reconciled) return;
+
+        this.record({
+            type: 'destroyRow',
+            rowId: command.targetId,
+            spaceId: row.spaceId,
+            data: row.data,
+            position: this.positionOf(row)
+        }, command.batchId);
+    }
+
+    onBeforeSpaceCommand<K extends keyof SpaceCommandMap>(command: SpaceCommand<K>): boolean | void {
+        if (command.name === 'createRow') {
+            // Give the new row a known ID so it can be deleted again
+            const payload = (command as SpaceCommand<'createRow'>).payload;
+            payload.rowId = payload.rowId ?? uuidv4();
+        }
+        return true;
+    }
+
+    onAfterSpaceCommand<K extends keyof SpaceCommandMap>(command: SpaceCommand<K>, result: CommandResult): void {
+        if (command.name !== 'createRow' || !result.delivered || this.isApplying) return;
+
+        const payload = (command as SpaceCommand<'createRow'>).payload;
+        const row = payload.rowId ? this.getTableAPIs().getRow(payload.rowId) : undefined;
+        if (!row) return;
+
+        this.record({
+            type: 'createRow',
+            rowId: payload.rowId!,
+            spaceId: command.targetSpaceId,
+            data: row.data,
+            position: this.positionOf(row)
+        }, command.batchId);
+    }
+
+    // Also called for blocked batches, whose moves still happened
+    onAfterBatch(batch: CommandBatch): void {
+        const step = this.pendingBatches.get(batch.id);
+        if (!step) return;
+        this.pendingBatches.delete(batch.id);
+        this.pushStep(step);
+    }
+
+    undo(): void {
+        const step = this.undoStack.pop();
+        if (!step) return;
+
+        // Undo the entries of a step in reverse order
+        this.apply(() => {
+            [...step].reverse().forEach(entry => this.revert(entry));
+        });
+
+        this.redoStack.push(step);
+        this.notifyChange();
+    }
+
+    redo(): void {
+        const step = this.redoStack.pop();
+        if (!step) return;
+
+        this.apply(() => {
+            step.forEach(entry => this.replay(entry));
+        });
+
+        this.undoStack.push(step);
+        this.notifyChange();
+    }
+
+    clearHistory(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.notifyChange();
+    }
+
+    private handleKeyDown(e: KeyboardEvent) {
+        // Leave native undo to text inputs
+        const target = e.target as HTMLElement | null;
+        if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+            return;
+        }
+
+        if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+            e.preventDefault();
+            this.undo();
+        } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+            e.preventDefault();
+            this.redo();
+        }
+    }
+
+    private record(entry: HistoryEntry, batchId?: string) {
+        if (batchId) {
+            // Batched commands become one step once the batch is delivered
+            const step = this.pendingBatches.get(batchId) ?? [];
+            step.push(entry);
+            this.pendingBatches.set(batchId, step);
+            return;
+        }
+        this.pushStep([entry]);
+    }
+
+    private pushStep(step: HistoryStep) {
+        this.undoStack.push(step);
+        if (this.undoStack.length > this.maxHistory) {
+            this.undoStack.shift();
+        }
+        // A new change invalidates the redo branch
+        this.redoStack = [];
+        this.notifyChange();
+    }
+
+    private apply(fn: () => void) {
+        this.isApplying = true;
+        try {
+            fn();
+        } finally {
+            this.isApplying = false;
+        }
+    }
+
+    private revert(entry: HistoryEntry) {
+        switch (entry.type) {
+            case 'value':
+                this.getTableAPIs().setRowValue(entry.rowId, entry.columnKey, entry.oldValue);
+                break;
+            case 'createRow':
+                this.removeRow(entry);
+                break;
+            case 'destroyRow':
+                this.restoreRow(entry);
+                break;
+            case 'moveRow':
+                this.getTableAPIs().moveRow(entry.rowId, entry.from);
+                break;
+        }
+    }
+
+    private replay(entry: HistoryEntry) {
+        switch (entry.type) {
+            case 'value':
+                this.getTableAPIs().setRowValue(entry.rowId, entry.columnKey, entry.newValue);
+                break;
+            case 'createRow':
+                this.restoreRow(entry);
+                break;
+            case 'destroyRow':
+                this.removeRow(entry);
+                break;
+            case 'moveRow':
+                this.getTableAPIs().moveRow(entry.rowId, entry.to);
+                break;
+        }
+    }
+
+    private removeRow(entry: Extract<HistoryEntry, { type: 'createRow' | 'destroyRow' }>) {
+        const row = this.getTableAPIs().getRow(entry.rowId);
+        if (!row) return;
+
+        // Remember the latest data and position for the way back
+        entry.data = row.data;
+        entry.position = this.positionOf(row);
+        this.getTableAPIs().deleteRow(entry.rowId);
+    }
+
+    private restoreRow(entry: Extract<HistoryEntry, { type: 'createRow' | 'destroyRow' }>) {
+        // Same row ID, so older history entries still point at it
+        this.getTableAPIs().createSpaceCommand(entry.spaceId, {
+            name: 'createRow',
+            payload: { data: entry.data, position: entry.position, rowId: entry.rowId }
+        });
+    }
+
+    private positionOf(row: Row<unknown>): 'top' | { after: RowId } {
+        return row.top ? { after: row.top } : 'top';
+    }
+
+    private notifyChange() {
+        const state = { canUndo: this.canUndo, canRedo: this.canRedo };
+        [this.onChangeOption, ...this.listeners].forEach(listener => {
+            if (!listener) return;
+            try {
+                listener(state);
+            } catch (error) {
+                console.error('UndoRedoPlugin: Error in change listener:', error);
+            }
+        });
+    }
+}